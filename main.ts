@@ -1,9 +1,20 @@
-import { App, Plugin, Notice, PluginSettingTab, Setting, TFile, WorkspaceLeaf, ItemView, Modal } from 'obsidian';
-import axios from 'axios';
+import { App, Plugin, Notice, PluginSettingTab, Setting, TFile, WorkspaceLeaf, ItemView, Modal, getLinkpath, debounce, requestUrl, RequestUrlResponse } from 'obsidian';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import * as path from 'path';
 
-interface GitPublisherSettings { repoUri: string; githubToken: string; autoPublishEnabled: boolean; inactivityDelaySec: number; maxIntervalMin: number; defaultBranch: string; debounceMs: number; batchCommitMessage: string; maxFileSizeKB: number; }
+interface GitPublisherSettings { backend: BackendKind; repoUri: string; githubToken: string; gitlabUrl: string; gitlabToken: string; giteaUrl: string; giteaToken: string; localPath: string; autoPublishEnabled: boolean; inactivityDelaySec: number; maxIntervalMin: number; defaultBranch: string; debounceMs: number; batchCommitMessage: string; maxFileSizeKB: number; publishAttachments: boolean; maxAttachmentSizeKB: number; convertLinks: boolean; stripComments: boolean; convertCallouts: boolean; sourceFolder: string; repoFolder: string; includePatterns: string; excludePatterns: string; reviewMode: boolean; stagingBranch: string; }
+type BackendKind = 'github'|'gitlab'|'gitea'|'local';
+type FileChange = { path:string; content:Buffer|null; sha:string|null };
+type RemoteTree = { blobs:Map<string,string>; truncated:boolean };
+interface PublishBackend { ensureBranch(): Promise<string|null>; listTree(head:string): Promise<RemoteTree|null>; commitChanges(head:string, changes:FileChange[], message:string, remote?:RemoteTree): Promise<string|'conflict'|null>; deleteFile(p:string, message:string): Promise<boolean>; readFile(p:string, ref?:string): Promise<Buffer|null>; upsertReview?(title:string, body:string): Promise<ReviewInfo|null>; getReview?(id:number): Promise<ReviewInfo|null>; listCommits?(p:string|null, limit:number): Promise<CommitInfo[]|null>; commitDetails?(sha:string): Promise<{ parent:string|null; files:string[] }|null>; }
+const BACKEND_LABELS: Record<BackendKind, string> = { github: 'GitHub', gitlab: 'GitLab', gitea: 'Gitea/Forgejo', local: 'Lokaler Ordner' };
+type RequestFailure = { status:number|null; message:string; retryAt:number|null };
+type RetryInfo = { attempts:number; nextAttempt:number; lastError:string };
+type ReviewInfo = { id:number; url:string; state:'open'|'merged'|'closed'; mergeable:boolean|null };
+type PreviewItem = { path:string; kind:'added'|'modified'|'deleted'; content:Buffer|null };
+type CommitInfo = { sha:string; message:string; date:string; url:string|null };
+type HistoryEntry = CommitInfo & { files:string[]|null; local:boolean };
 
 export default class GitPublisherPlugin extends Plugin {
 	public settings: GitPublisherSettings;
@@ -14,78 +25,138 @@ export default class GitPublisherPlugin extends Plugin {
 	public lastActivityTime: number | null = null;
 	public publishingInProgress = false;
 	public publishQueue: Set<string> = new Set();
+	public pendingRemovals: Set<string> = new Set();
+	public remoteOrphans: string[] = [];
+	public retries: Record<string, RetryInfo> = {};
+	public blockedUntil = 0;
+	public conflicts: Map<string, { remotePath:string; remoteSha:string }> = new Map();
 	private shaMap: Record<string, string> = {};
+	private localMtimes: Record<string, number> = {};
+	private publishedAttachments: Record<string, number> = {};
+	private remotePaths: Record<string, string> = {};
+	private publishedPaths: Set<string> = new Set();
+	private publishedSnapshot: Map<string, string|null> = new Map();
+	private removalShas: Record<string, string> = {};
+	private revertHolds: Record<string, number> = {};
 	private publishedStatusEl: HTMLElement | null = null;
 	private publishedCheckbox: HTMLInputElement | null = null;
 	private publishedTrack: HTMLElement | null = null;
 	private debounceHandle: number | null = null;
+	private syncHandle: number | null = null;
+	private retryHandle: number | null = null;
+	public lastFailure: RequestFailure | null = null;
+	public review: (ReviewInfo & { notes:string[] }) | null = null;
+	private requestSave = debounce(() => { this.saveSettings(); }, 2000, true);
 	private logPath: string | null = null;
-	private lastScanSummary: { total: number; outOfSync: number; missing: number; ts: number } | null = null;
+	private lastScanSummary: { total: number; outOfSync: number; missing: number; orphaned: number; cached: number; ts: number } | null = null;
 
 	async loadSettings() {
 		const raw: any = await this.loadData();
-		const defaults: GitPublisherSettings = { repoUri: '', githubToken: '', autoPublishEnabled: true, inactivityDelaySec: 30, maxIntervalMin: 5, defaultBranch: 'main', debounceMs: 1500, batchCommitMessage: 'Publish', maxFileSizeKB: 1024 };
-		if (raw && raw.settings) { this.settings = Object.assign({}, defaults, raw.settings); this.shaMap = raw.shaMap || {}; } else { this.settings = Object.assign({}, defaults, raw || {}); this.shaMap = {}; }
+		const defaults: GitPublisherSettings = { backend: 'github', repoUri: '', githubToken: '', gitlabUrl: '', gitlabToken: '', giteaUrl: '', giteaToken: '', localPath: '', autoPublishEnabled: true, inactivityDelaySec: 30, maxIntervalMin: 5, defaultBranch: 'main', debounceMs: 1500, batchCommitMessage: 'Publish', maxFileSizeKB: 1024, publishAttachments: true, maxAttachmentSizeKB: 5120, convertLinks: true, stripComments: true, convertCallouts: true, sourceFolder: '', repoFolder: '', includePatterns: '', excludePatterns: '', reviewMode: false, stagingBranch: '' };
+		if (raw && raw.settings) { this.settings = Object.assign({}, defaults, raw.settings); this.shaMap = raw.shaMap || {}; this.localMtimes = raw.mtimes || {}; this.publishedAttachments = raw.attachments || {}; this.remotePaths = raw.remotePaths || {}; this.publishedPaths = new Set(raw.publishedPaths || Object.values(this.remotePaths)); this.review = raw.review || null; this.revertHolds = raw.revertHolds || {}; this.restoreQueue(raw.queue); } else { this.settings = Object.assign({}, defaults, raw || {}); this.shaMap = {}; }
+		if ([this.settings.gitlabUrl, this.settings.giteaUrl].some(u => /^http:\/\//i.test((u || '').trim()))) new Notice('Git Publisher: http-URL verworfen – nur https ist erlaubt, damit der Token nicht unverschlüsselt übertragen wird');
 		this.sanitizeSettings();
 	}
-	async saveSettings() { await this.saveData({ settings: this.settings, shaMap: this.shaMap }); }
+	async saveSettings() { await this.saveData({ settings: this.settings, shaMap: this.shaMap, mtimes: this.localMtimes, attachments: this.publishedAttachments, remotePaths: this.remotePaths, publishedPaths: [...this.publishedPaths], review: this.review, revertHolds: this.revertHolds, queue: { paths: [...this.publishQueue], pending: [...this.pendingChanges].filter(([, pen]) => pen).map(([p]) => p), removals: [...this.pendingRemovals], removalShas: this.removalShas, retries: this.retries, blockedUntil: this.blockedUntil } }); }
+
+	private restoreQueue(q: any) {
+		if (!q) return;
+		(q.paths || []).forEach((p: string) => this.publishQueue.add(p));
+		(q.pending || []).forEach((p: string) => this.pendingChanges.set(p, true));
+		(q.removals || []).forEach((p: string) => this.pendingRemovals.add(p));
+		this.removalShas = q.removalShas || {};
+		this.retries = q.retries || {};
+		this.blockedUntil = q.blockedUntil || 0;
+	}
 
 	public sanitizeSettings() {
-		if (!/^https:\/\/github\.com\/[\w.-]+\/[\w.-]+(?:\.git)?$/.test(this.settings.repoUri || '')) { this.settings.repoUri = ''; this.settings.autoPublishEnabled = false; }
+		if (!Object.prototype.hasOwnProperty.call(BACKEND_LABELS, this.settings.backend)) this.settings.backend = 'github';
+		if (!/^https:\/\/github\.com\/[\w.-]+\/[\w.-]+(?:\.git)?$/.test(this.settings.repoUri || '')) { this.settings.repoUri = ''; if (this.settings.backend === 'github') this.settings.autoPublishEnabled = false; }
+		if (this.settings.gitlabUrl && !this.parseHostedRepo(this.settings.gitlabUrl)) this.settings.gitlabUrl = '';
+		if (this.settings.giteaUrl && this.parseHostedRepo(this.settings.giteaUrl)?.path.split('/').length !== 2) this.settings.giteaUrl = '';
+		this.settings.localPath = (this.settings.localPath || '').trim();
 		if (!/^[A-Za-z0-9._\/-]+$/.test(this.settings.defaultBranch)) this.settings.defaultBranch = 'main';
+		this.settings.stagingBranch = (this.settings.stagingBranch || '').trim();
+		if (!/^[A-Za-z0-9._/-]*$/.test(this.settings.stagingBranch) || this.settings.stagingBranch === this.settings.defaultBranch) this.settings.stagingBranch = '';
 		if (this.settings.inactivityDelaySec < 5) this.settings.inactivityDelaySec = 5;
 		if (this.settings.maxIntervalMin < 1) this.settings.maxIntervalMin = 1;
 		if (this.settings.debounceMs < 250) this.settings.debounceMs = 250;
 		if (this.settings.maxFileSizeKB < 50) this.settings.maxFileSizeKB = 50;
+		if (this.settings.maxAttachmentSizeKB < 50) this.settings.maxAttachmentSizeKB = 50;
+		this.settings.sourceFolder = this.cleanFolder(this.settings.sourceFolder);
+		this.settings.repoFolder = this.cleanFolder(this.settings.repoFolder);
 		this.settings.batchCommitMessage = this.settings.batchCommitMessage.replace(/[\r\n]/g, ' ').slice(0, 100) || 'Publish';
 	}
 
-	private toBase64(str: string): string { return Buffer.from(str, 'utf8').toString('base64'); }
+	private cleanFolder(p: string): string { const f = (p || '').trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, ''); return f.split('/').some(s => s === '..' || s === '.') ? '' : f; }
 
-	private async githubReq(method: 'get'|'post'|'patch'|'delete'|'put', url: string, data?: any): Promise<any> {
-		try { const r = await axios.request({ method, url, data, headers: { Authorization: `Bearer ${this.settings.githubToken}`, Accept: 'application/vnd.github.v3+json' } }); this.log('github_ok', { method, url, status: r.status }); return r.data; }
-		catch(e:any){ const s=e.response?.status; this.log('github_err',{ method,url,status:s, body: e.response?.data }, s===409?'WARN':'ERROR'); if(s===409) new Notice('GitHub 409 Konflikt'); else new Notice(`GitHub Fehler ${s||''}`); return null; }
+	public gitBlobSha(content: string|ArrayBuffer|Buffer): string { const buf = typeof content === 'string' ? Buffer.from(content, 'utf8') : Buffer.from(content as ArrayBuffer); return crypto.createHash('sha1').update(`blob ${buf.length}\0`).update(buf).digest('hex'); }
+
+	public async httpReq(method: 'get'|'post'|'put'|'patch'|'delete', url: string, data: any, headers: Record<string, string>, retryable: number[] = []): Promise<any> {
+		let res: RequestUrlResponse;
+		try { res = await requestUrl({ url, method: method.toUpperCase(), headers, contentType: data === undefined ? undefined : 'application/json', body: data === undefined ? undefined : JSON.stringify(data), throw: false }); }
+		catch(e:any){ this.lastFailure=this.describeFailure(null, {}, null, e?.message); this.log('api_err',{ method,url,status:null, message:this.lastFailure.message }, 'ERROR'); return null; }
+		const s=res.status; let body:any=''; try{ body=res.text ? JSON.parse(res.text) : ''; } catch { body=res.text; }
+		if(s<400){ this.log('api_ok', { method, url, status: s }); return body; }
+		const label=BACKEND_LABELS[this.settings.backend]; if(retryable.includes(s)){ this.log('api_retry',{ method,url,status:s, body }, 'WARN'); return { conflict:s, message:String(body?.message || '') }; } this.lastFailure=this.describeFailure(s, res.headers, body); this.log('api_err',{ method,url,status:s, body, retryAt:this.lastFailure.retryAt }, s===409?'WARN':'ERROR'); if(s===409) new Notice(`${label} 409 Konflikt`); else if(this.lastFailure.retryAt) new Notice(`${label} Rate-Limit erreicht – nächster Versuch ${new Date(this.lastFailure.retryAt).toLocaleTimeString()}`); else new Notice(`${label} Fehler ${s}`); return null;
 	}
-	private githubGet(url:string){ return this.githubReq('get',url); }
-	private githubPost(url:string,data:any){ return this.githubReq('post',url,data); }
-	private githubPatch(url:string,data:any){ return this.githubReq('patch',url,data); }
-	private githubDelete(url:string,data:any){ return this.githubReq('delete',url,data); }
-	private githubPut(url:string,data:any){ return this.githubReq('put',url,data); }
+	private describeFailure(s:number|null, headers:Record<string,string>, body:any, error?:string): RequestFailure { const h:Record<string,string>={}; for(const [k,v] of Object.entries(headers || {})) h[k.toLowerCase()]=v; let retryAt:number|null=null; const ra=h['retry-after']; if(ra!==undefined){ const sec=Number(ra); retryAt=isNaN(sec) ? Date.parse(ra) || null : Date.now()+sec*1000; } else if(h['x-ratelimit-remaining']==='0' && h['x-ratelimit-reset']) retryAt=Number(h['x-ratelimit-reset'])*1000; const msg=s ? `HTTP ${s}${body?.message ? ': '+body.message : ''}` : (error || 'Netzwerkfehler'); return { status:s, message:msg, retryAt }; }
+	public isRetryable(f:RequestFailure){ return f.status===null || f.retryAt!==null || f.status===429 || f.status>=500; }
+
+	public ensureBackendConfig(): boolean { const s=this.settings; switch(s.backend){ case 'gitlab': return !!(s.gitlabUrl && s.gitlabToken); case 'gitea': return !!(s.giteaUrl && s.giteaToken); case 'local': return !!s.localPath; default: return !!(s.repoUri && s.githubToken); } }
+	public createBackend(): PublishBackend|null { const s=this.settings; switch(s.backend){ case 'gitlab': { const u=this.parseHostedRepo(s.gitlabUrl); return u ? new GitLabBackend(this,u.origin,u.path) : null; } case 'gitea': { const u=this.parseHostedRepo(s.giteaUrl); const parts=u ? u.path.split('/') : []; return u && parts.length===2 ? new GiteaBackend(this,u.origin,parts[0],parts[1]) : null; } case 'local': return s.localPath ? new LocalFolderBackend(this,s.localPath) : null; default: { const p=this.parseRepo(); return p ? new GitHubBackend(this,p.owner,p.repo) : null; } } }
 
-	public ensureGitHubConfig(): boolean { return !!(this.settings.repoUri && this.settings.githubToken); }
+	public targetBranch(): string { if (!this.settings.reviewMode) return this.settings.defaultBranch; return this.settings.stagingBranch || `gitpublish/${this.app.vault.getName().toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'staging'}`; }
 
 	async onload() {
 		await this.loadSettings();
 		this.initLogging();
 		this.registerView('gitpublish-pending-view', leaf => new PendingView(leaf, this));
+		this.registerView('gitpublish-history-view', leaf => new HistoryView(leaf, this));
 		this.addRibbonIcon('upload-cloud', 'Git Publish', () => this.activateView());
 		this.createPublishedToggle();
 		this.addCommands();
 		this.registerEvents();
 		this.addSettingTab(new GitPublisherSettingTab(this.app, this));
 		this.refreshPublishedStatus();
+		this.registerDomEvent(window, 'online', () => { this.retryNow(); });
 		await this.initialRepoScan();
+		if (this.publishQueue.size || this.pendingRemovals.size) await this.processPublishQueue();
 	}
 
-	onunload() { this.clearTimers(); this.app.workspace.getLeavesOfType('gitpublish-pending-view').forEach(l => l.detach()); }
+	onunload() { this.clearTimers(); if(this.syncHandle) clearTimeout(this.syncHandle); if(this.retryHandle) clearTimeout(this.retryHandle); ['gitpublish-pending-view','gitpublish-history-view'].forEach(t => this.app.workspace.getLeavesOfType(t).forEach(l => l.detach())); }
 
 	private addCommands() {
 		this.addCommand({ id: 'gitpub-toggle-published', name: 'Toggle published flag', checkCallback: c => { const f=this.app.workspace.getActiveFile(); if(!f) return false; if(!c) this.togglePublished(f); return true; } });
 		this.addCommand({ id: 'gitpub-publish-current', name: 'Publish current file now', checkCallback: c => { const f=this.app.workspace.getActiveFile(); if(!f) return false; if(!c) this.queueFileForPublish(f); return true; } });
-		this.addCommand({ id: 'gitpub-publish-all', name: 'Publish all pending now', callback: async ()=>{ await this.publishAllPending(); } });
-		this.addCommand({ id: 'gitpub-rescan', name: 'Rescan published files', callback: async ()=>{ const p=this.parseRepo(); if(!p){ new Notice('Repo ungültig'); return;} await this.scanPublishedFiles(p.owner,p.repo); this.updatePendingView(); new Notice('Rescan fertig'); } });
+		this.addCommand({ id: 'gitpub-publish-all', name: 'Publish all pending now', callback: ()=> new PublishPreviewModal(this.app,this).open() });
+		this.addCommand({ id: 'gitpub-rescan', name: 'Rescan published files', callback: async ()=>{ const b=this.createBackend(); if(!b){ new Notice('Repo ungültig'); return;} await this.scanPublishedFiles(b); this.updatePendingView(); new Notice('Rescan fertig'); } });
+		this.addCommand({ id: 'gitpub-resolve-conflict', name: 'Resolve publish conflict for current file', checkCallback: c => { const f=this.app.workspace.getActiveFile(); if(!f || !this.conflicts.has(f.path)) return false; if(!c) new ConflictModal(this.app,this,f).open(); return true; } });
+		this.addCommand({ id: 'gitpub-show-history', name: 'Show publish history', callback: ()=> this.activateView('gitpublish-history-view') });
 		this.addCommand({ id: 'gitpub-show-help', name: 'Show Git Publisher Hilfe', callback: ()=> new HelpModal(this.app).open() });
 		this.addCommand({ id: 'gitpub-add-published-property', name: 'Add published property to current file', checkCallback: c => { const f=this.app.workspace.getActiveFile(); if(!f) return false; if(!c) this.ensurePublishedProperty(f,false); return true; } });
 	}
 
 	private registerEvents() {
 		this.registerEvent(this.app.workspace.on('active-leaf-change', ()=>{ this.refreshPublishedStatus(); this.updatePendingView(); }));
-		this.registerEvent(this.app.metadataCache.on('changed', file=>{ const a=this.app.workspace.getActiveFile(); if(a && file.path===a.path) this.refreshPublishedStatus(); this.updatePendingView(); }));
+		this.app.workspace.onLayoutReady(()=>{ for(const f of this.app.vault.getMarkdownFiles()) this.publishedSnapshot.set(f.path, this.publishedTarget(f)); });
+		this.registerEvent(this.app.metadataCache.on('changed', file=>{ this.trackPublishedState(file); const a=this.app.workspace.getActiveFile(); if(a && file.path===a.path) this.refreshPublishedStatus(); this.updatePendingView(); }));
 		this.registerEvent(this.app.workspace.on('editor-change', ()=>{ const f=this.app.workspace.getActiveFile(); if(f) this.handleEditorActivity(f); }));
-		this.registerEvent(this.app.vault.on('modify', file=>{ if(!(file instanceof TFile) || file.extension!=='md') return; const c=this.app.metadataCache.getFileCache(file); if(c?.frontmatter?.published===true){ this.pendingChanges.set(file.path,true); this.refreshPublishedStatus(); this.updatePendingView(); } }));
+		this.registerEvent(this.app.vault.on('modify', file=>{ if(!(file instanceof TFile)) return; if(this.isAttachment(file)){ if(this.publishedAttachments[file.path]!==undefined){ this.pendingChanges.set(file.path,true); this.updatePendingView(); } return; } if(this.isPublishedNote(file)){ delete this.revertHolds[file.path]; this.pendingChanges.set(file.path,true); this.requestSave(); this.refreshPublishedStatus(); this.updatePendingView(); } }));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath)=>{ if(file instanceof TFile) this.handleRename(file, oldPath); }));
+		this.registerEvent(this.app.vault.on('delete', file=>{ if(file instanceof TFile) this.handleDelete(file.path); }));
 	}
 
-	private activateView() { const leaves=this.app.workspace.getLeavesOfType('gitpublish-pending-view'); if(leaves.length===0){ const rl=this.app.workspace.getRightLeaf(false); if(rl) rl.setViewState({ type:'gitpublish-pending-view', active:true }); } else this.app.workspace.revealLeaf(leaves[0]); }
+	private publishedTarget(file:TFile){ return this.isPublishedNote(file) ? this.repoPath(file) : null; }
+	private trackPublishedState(file:TFile){ if(this.isAttachment(file)) return; const now=this.publishedTarget(file); const before=this.publishedSnapshot.get(file.path); this.publishedSnapshot.set(file.path, now); if(before===undefined || before===now) return; this.markBacklinksPending(file.path); if(before && !now) this.queueUnpublish(file.path); }
+	private queueRemoval(rp:string, sha?:string){ this.pendingRemovals.add(rp); if(sha) this.removalShas[rp]=sha; }
+	private queueUnpublish(p:string){ const sha=this.shaMap[p]; const rp=this.shaMap[p]!==undefined ? this.remotePathOf(p) : this.remotePaths[p]; this.pendingChanges.delete(p); this.publishQueue.delete(p); this.conflicts.delete(p); delete this.shaMap[p]; delete this.localMtimes[p]; delete this.remotePaths[p]; if(rp===undefined){ this.updatePendingView(); return; } this.queueRemoval(rp, sha); this.log('unpublish_queued',{ path:p, remote:rp }); this.scheduleRemoteSync(); }
+	private markBacklinksPending(target:string){ let count=0; for(const [src,links] of Object.entries(this.app.metadataCache.resolvedLinks)){ if(src===target || !links[target]) continue; const f=this.app.vault.getAbstractFileByPath(src); if(!(f instanceof TFile) || !this.isPublishedNote(f) || this.revertHolds[src]===f.stat.mtime) continue; delete this.localMtimes[src]; if(this.pendingChanges.get(src)) continue; this.pendingChanges.set(src,true); count++; } if(count){ this.log('backlinks_pending',{ target, count }); this.requestSave(); this.updatePendingView(); } }
+	private handleRename(file:TFile, oldPath:string){ delete this.revertHolds[oldPath]; if(!this.isAttachment(file)){ const before=this.publishedSnapshot.get(oldPath); const now=this.publishedTarget(file); this.publishedSnapshot.delete(oldPath); this.publishedSnapshot.set(file.path, now); if(before || now){ this.markBacklinksPending(oldPath); this.markBacklinksPending(file.path); } } if(this.isAttachment(file)){ if(this.publishedAttachments[oldPath]===undefined) return; this.pendingRemovals.add(this.remotePathOf(oldPath)); delete this.publishedAttachments[oldPath]; delete this.remotePaths[oldPath]; this.pendingChanges.delete(oldPath); if(this.isSafePath(file.path)) this.publishQueue.add(file.path); this.log('rename',{ from:oldPath, to:file.path }); this.scheduleRemoteSync(); return; } const remoteSha=this.shaMap[oldPath]; if(remoteSha===undefined && !this.pendingChanges.has(oldPath)) return; const published=remoteSha!==undefined ? this.remotePathOf(oldPath) : this.remotePaths[oldPath]; this.pendingChanges.delete(oldPath); this.publishQueue.delete(oldPath); this.conflicts.delete(oldPath); const mtime=this.localMtimes[oldPath]; delete this.shaMap[oldPath]; delete this.localMtimes[oldPath]; delete this.remotePaths[oldPath]; if(this.isPublishedNote(file) && this.isSafePath(file.path)){ if(remoteSha!==undefined) this.shaMap[file.path]=remoteSha; if(mtime!==undefined) this.localMtimes[file.path]=mtime; if(published!==undefined) this.remotePaths[file.path]=published; this.pendingChanges.set(file.path,true); this.publishQueue.add(file.path); } else if(published!==undefined) this.queueRemoval(published, remoteSha); this.log('rename',{ from:oldPath, to:file.path }); this.refreshPublishedStatus(); this.scheduleRemoteSync(); }
+	private handleDelete(p:string){ delete this.revertHolds[p]; if(this.publishedSnapshot.get(p)) this.markBacklinksPending(p); this.publishedSnapshot.delete(p); if(this.publishedAttachments[p]!==undefined){ this.pendingRemovals.add(this.remotePathOf(p)); delete this.publishedAttachments[p]; } else if(this.shaMap[p]!==undefined){ this.queueRemoval(this.remotePathOf(p), this.shaMap[p]); delete this.shaMap[p]; delete this.localMtimes[p]; } else if(!this.pendingChanges.has(p)) return; delete this.remotePaths[p]; this.pendingChanges.delete(p); this.publishQueue.delete(p); this.conflicts.delete(p); this.log('delete',{ path:p }); this.scheduleRemoteSync(); }
+	private scheduleRemoteSync(){ this.updatePendingView(); this.requestSave(); if(!this.settings.autoPublishEnabled) return; if(this.syncHandle) clearTimeout(this.syncHandle); this.syncHandle=window.setTimeout(async()=>{ this.syncHandle=null; await this.processPublishQueue(); }, 1000); }
+
+	public activateView(type='gitpublish-pending-view') { const leaves=this.app.workspace.getLeavesOfType(type); if(leaves.length===0){ const rl=this.app.workspace.getRightLeaf(false); if(rl) rl.setViewState({ type, active:true }); } else this.app.workspace.revealLeaf(leaves[0]); }
 
 	public clearTimers(){ if(this.inactivityHandle) clearTimeout(this.inactivityHandle); if(this.sessionHandle) clearTimeout(this.sessionHandle); if(this.debounceHandle) clearTimeout(this.debounceHandle); this.inactivityHandle=this.sessionHandle=this.sessionStart=this.debounceHandle=null; }
 
@@ -96,51 +167,193 @@ export default class GitPublisherPlugin extends Plugin {
 	private resetInactivityTimer(file:TFile){ if(this.inactivityHandle) clearTimeout(this.inactivityHandle); this.inactivityHandle=window.setTimeout(async()=>{ await this.publishFileIfPending(file); this.refreshPublishedStatus(); }, this.settings.inactivityDelaySec*1000); }
 	private resetSessionTimer(){ if(this.sessionHandle) clearTimeout(this.sessionHandle); this.sessionHandle=window.setTimeout(async()=>{ await this.publishAllPending(); this.clearTimers(); this.refreshPublishedStatus(); }, this.settings.maxIntervalMin*60*1000); }
 
-	private async publishFileIfPending(file:TFile){ if(!this.settings.autoPublishEnabled) return; const c=this.app.metadataCache.getFileCache(file); if(c?.frontmatter?.published!==true) return; if(!this.pendingChanges.get(file.path)) return; await this.queueFileForPublish(file); }
-	public async publishAllPending(){ if(!this.settings.autoPublishEnabled) return; for(const [p,pen] of this.pendingChanges.entries()){ if(!pen) continue; const f=this.app.vault.getAbstractFileByPath(p); if(f instanceof TFile) await this.queueFileForPublish(f); } }
-	public async queueFileForPublish(file:TFile){ if(!this.isSafePath(file.path)) return; if(await this.isTooLarge(file)) { this.log('skip_large',{ path:file.path }); return; } this.publishQueue.add(file.path); await this.processPublishQueue(); }
-	private async isTooLarge(file:TFile){ const stat = (this.app.vault.adapter as any).stat?.(file.path); if(stat?.size) return stat.size > this.settings.maxFileSizeKB*1024; const content=await this.app.vault.read(file); return content.length > this.settings.maxFileSizeKB*1024; }
+	private async publishFileIfPending(file:TFile){ if(!this.settings.autoPublishEnabled) return; if(!this.isPublishedNote(file)) return; if(!this.pendingChanges.get(file.path)) return; await this.queueFileForPublish(file); }
+	public async publishAllPending(){ if(!this.settings.autoPublishEnabled) return; await this.publishPendingNow(); }
+	public async publishPendingNow(){ for(const [p,pen] of this.pendingChanges.entries()){ if(!pen) continue; const f=this.app.vault.getAbstractFileByPath(p); if(f instanceof TFile) await this.queueFileForPublish(f); } if(this.pendingRemovals.size) await this.processPublishQueue(); }
+	public async queueFileForPublish(file:TFile){ if(!this.isSafePath(file.path)) return; if(this.conflicts.has(file.path)){ this.log('skip_conflict',{ path:file.path }); return; } if(await this.isTooLarge(file)) { this.log('skip_large',{ path:file.path }); return; } this.publishQueue.add(file.path); if(this.retries[file.path]) this.retries[file.path].nextAttempt=0; await this.processPublishQueue(); }
+	private async isTooLarge(file:TFile){ if(this.isAttachment(file)) return this.isAttachmentTooLarge(file); const stat = (this.app.vault.adapter as any).stat?.(file.path); if(stat?.size) return stat.size > this.settings.maxFileSizeKB*1024; const content=await this.app.vault.read(file); return content.length > this.settings.maxFileSizeKB*1024; }
 	private isSafePath(p:string){ return !p.startsWith('.') && !p.includes('..'); }
+	private isPublishedNote(file:TFile){ if(this.isAttachment(file)) return false; const fm=this.app.metadataCache.getFileCache(file)?.frontmatter; if(fm?.published===false || !this.repoPath(file)) return false; return fm?.published===true || this.matchesPublishRules(file.path); }
+	private matchesPublishRules(p:string){ const inc=this.patternList(this.settings.includePatterns); if(!inc.length || !inc.some(g=>this.matchesGlob(p,g))) return false; return !this.patternList(this.settings.excludePatterns).some(g=>this.matchesGlob(p,g)); }
+	private patternList(raw:string){ return (raw||'').split(/[\n,]/).map(s=>s.trim()).filter(Boolean); }
+	private matchesGlob(p:string, glob:string){ const g=glob.replace(/^\/+/,'').replace(/\/$/,'/**'); const re=g.split(/(\*\*\/?|\*|\?)/).map(part=>part==='**/'?'(?:.*/)?':part==='**'?'.*':part==='*'?'[^/]*':part==='?'?'[^/]':part.replace(/[.+^${}()|[\]\\]/g,'\\$&')).join(''); return new RegExp(`^${re}$`).test(p); }
+	private mapVaultPath(p:string){ const src=this.settings.sourceFolder; const rel=src && p.startsWith(src+'/') ? p.slice(src.length+1) : p; return this.settings.repoFolder ? `${this.settings.repoFolder}/${rel}` : rel; }
+	private remotePathOf(p:string){ return this.remotePaths[p] ?? this.mapVaultPath(p); }
+	public repoPath(file:TFile): string|null { if(this.isAttachment(file)){ const rp=this.mapVaultPath(file.path); return this.isSafePath(rp) ? rp : null; } const src=this.settings.sourceFolder; if(src && !file.path.startsWith(src+'/')) return null; const fm=this.app.metadataCache.getFileCache(file)?.frontmatter; let rel=src ? file.path.slice(src.length+1) : file.path; if(typeof fm?.publish_path==='string' && fm.publish_path.trim()){ rel=fm.publish_path.trim().replace(/\\/g,'/').replace(/^\/+/,''); if(rel.endsWith('/')) rel+=file.name; else if(!rel.endsWith('.md')) rel+='.md'; } else if(fm?.slug!==undefined && String(fm.slug).trim()){ const dir=path.posix.dirname(rel); const name=`${String(fm.slug).trim().replace(/[/\\]/g,'-')}.md`; rel=dir==='.' ? name : `${dir}/${name}`; } const rp=this.settings.repoFolder ? `${this.settings.repoFolder}/${rel}` : rel; return this.isSafePath(rp) ? rp : null; }
+	private isImage(file:TFile){ return ['png','jpg','jpeg','gif','svg','webp','bmp','avif'].includes(file.extension.toLowerCase()); }
+
+	private async renderForPublish(file:TFile){ const raw=await this.app.vault.read(file); return this.transformMarkdown(raw, file.path); }
+	private transformMarkdown(src:string, sourcePath:string){ const o=this.settings; if(!o.convertLinks && !o.stripComments && !o.convertCallouts) return src; return src.split(/(```[\s\S]*?```|`[^`\n]*`)/).map((seg,i)=>{ if(i%2===1) return seg; let out=seg; if(o.stripComments) out=out.replace(/%%[\s\S]*?%%/g,''); if(o.convertLinks) out=this.convertLinks(out, sourcePath); if(o.convertCallouts) out=out.replace(/^((?:>[ \t]*)+)\[!(\w+)\][+-]?[ \t]*(.*)$/gm, (m,quote:string,type:string,title:string)=>`${quote}**${title.trim() || type.charAt(0).toUpperCase()+type.slice(1).toLowerCase()}**`); return out; }).join(''); }
+	private convertLinks(text:string, sourcePath:string){
+		const md=text.replace(/(!?)\[([^\]\n]*)\]\(([^)\s#]*)(#[^)\s]*)?\)/g, (m,bang:string,label:string,target:string,hash?:string)=>{ if(!target || /^[a-z][a-z0-9+.-]*:/i.test(target)) return m; let dec=target; try{ dec=decodeURI(target); } catch { dec=target; } let sub=(hash||'').slice(1); try{ sub=decodeURIComponent(sub); } catch { /* keep raw anchor */ } const rel=this.app.vault.getAbstractFileByPath(path.posix.normalize(path.posix.join(path.posix.dirname(sourcePath), dec))); const dest=rel instanceof TFile ? rel : this.app.metadataCache.getFirstLinkpathDest(dec, sourcePath); if(!dest) return m; if(!this.isAttachment(dest) && !this.isPublishedNote(dest)) return label; const href=this.publishedHref(dest, sourcePath, sub); return href ? `${bang}[${label}](${href})` : m; });
+		return md.replace(/(!?)\[\[([^\]\n]+)\]\]/g, (m,bang:string,inner:string)=>{ const bar=inner.indexOf('|'); const target=bar>=0?inner.slice(0,bar):inner; const alias=bar>=0?inner.slice(bar+1).trim():''; const hash=target.indexOf('#'); const linkpath=(hash>=0?target.slice(0,hash):target).trim(); const sub=hash>=0?target.slice(hash+1).trim():''; const dest=linkpath ? this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath) : this.app.vault.getAbstractFileByPath(sourcePath); const file=dest instanceof TFile ? dest : null; const label=(alias && !/^\d+(x\d+)?$/.test(alias)) ? alias : [linkpath && (file?.basename || linkpath), sub.replace(/^\^/,'')].filter(Boolean).join(' > '); const href=file ? this.publishedHref(file, sourcePath, sub) : null; if(!href || !file) return label; return bang && this.isImage(file) ? `![${label}](${href})` : `[${label}](${href})`; });
+	}
+	private publishedHref(dest:TFile, sourcePath:string, sub:string){ if(this.isAttachment(dest) ? !this.settings.publishAttachments : !this.isPublishedNote(dest)) return null; const src=this.app.vault.getAbstractFileByPath(sourcePath); const from=(src instanceof TFile && this.repoPath(src)) || sourcePath; const to=this.repoPath(dest); if(!to) return null; const rel=path.posix.relative(path.posix.dirname(from), to) || path.posix.basename(to); const anchor=sub && !sub.startsWith('^') && !this.isAttachment(dest) ? '#'+this.headingSlug(sub) : ''; return encodeURI(rel)+anchor; }
+	private headingSlug(heading:string){ return heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu,'').replace(/\s+/g,'-'); }
 
-	private async processPublishQueue(){ if(this.publishingInProgress) return; if(!this.ensureGitHubConfig()) return; this.publishingInProgress=true; try{ const paths=[...this.publishQueue]; if(paths.length===0) return; await this.publishBatch(paths); paths.forEach(p=>this.publishQueue.delete(p)); } finally { this.publishingInProgress=false; this.refreshPublishedStatus(); this.updatePendingView(); } }
+	private isAttachment(file:TFile){ return file.extension!=='md'; }
+	private isAttachmentTooLarge(file:TFile){ return file.stat.size > this.settings.maxAttachmentSizeKB*1024; }
+	private needsAttachmentUpload(file:TFile){ const m=this.publishedAttachments[file.path]; return m===undefined || file.stat.mtime>m; }
+	private collectAttachments(file:TFile): TFile[] { if(!this.settings.publishAttachments) return []; const c=this.app.metadataCache.getFileCache(file); const out=new Map<string,TFile>(); for(const ref of [...(c?.embeds||[]), ...(c?.links||[])]){ const t=this.app.metadataCache.getFirstLinkpathDest(getLinkpath(ref.link), file.path); if(t && this.isAttachment(t) && this.isSafePath(t.path)) out.set(t.path,t); } return [...out.values()]; }
+	private referencedAttachments(ignore?:string){ const refs=new Set<string>(); for(const f of this.app.vault.getMarkdownFiles()){ if(f.path===ignore || !this.isPublishedNote(f)) continue; for(const a of this.collectAttachments(f)) refs.add(a.path); } return refs; }
+	private orphanedAttachments(ignore?:string){ const refs=this.referencedAttachments(ignore); return Object.keys(this.publishedAttachments).filter(p=>!refs.has(p)); }
+	private async pruneAttachments(ignore?:string){ if(this.publishingInProgress || !this.ensureBackendConfig()) return; if(!this.orphanedAttachments(ignore).length) return; this.publishingInProgress=true; try{ await this.publishBatch([], [], ignore); } finally { this.publishingInProgress=false; this.updatePendingView(); } }
+
+	private async processPublishQueue(){ if(this.publishingInProgress) return; if(!this.ensureBackendConfig()) return; const now=Date.now(); if(this.blockedUntil>now){ this.scheduleRetry(); return; } if(this.settings.backend!=='local' && !navigator.onLine){ this.log('queue_offline',{ queued:this.publishQueue.size+this.pendingRemovals.size }); await this.saveSettings(); return; } this.publishingInProgress=true; const attempted=new Set<string>(); try{ const due=(p:string)=>!((this.retries[p]?.nextAttempt||0)>now); const paths=[...this.publishQueue].filter(due); const removals=[...this.pendingRemovals].filter(due); if(paths.length===0 && removals.length===0) return; [...paths, ...removals].forEach(p=>attempted.add(p)); this.lastFailure=null; const ok=await this.publishBatch(paths, removals); const failure=this.lastFailure as RequestFailure|null; const retry=failure && this.isRetryable(failure) ? failure : null; const failed=paths.filter(p=>!ok || (this.pendingChanges.get(p) && !this.conflicts.has(p))); for(const p of paths){ if(retry && failed.includes(p)) continue; this.publishQueue.delete(p); if(failure && failed.includes(p)) this.retries[p]={ attempts:(this.retries[p]?.attempts||0)+1, nextAttempt:0, lastError:failure.message }; else delete this.retries[p]; } if(ok || !retry) removals.forEach(p=>{ this.pendingRemovals.delete(p); delete this.retries[p]; }); if(retry) this.markRetry(ok ? failed : [...failed, ...removals], retry); else if(!ok && removals.length){ this.log('removals_dropped',{ removals, error:failure?.message },'WARN'); new Notice(`Entfernen aus dem Repository fehlgeschlagen (${failure?.message || 'unbekannter Fehler'}): ${removals.join(', ')}`); } await this.saveSettings(); } finally { this.publishingInProgress=false; this.refreshPublishedStatus(); this.updatePendingView(); } this.scheduleRetry(); const later=Date.now(); if([...this.publishQueue, ...this.pendingRemovals].some(p=>!attempted.has(p) && !((this.retries[p]?.nextAttempt||0)>later))) await this.processPublishQueue(); }
+	private markRetry(items:string[], failure:RequestFailure){ const now=Date.now(); if(failure.retryAt && failure.retryAt>now) this.blockedUntil=failure.retryAt; for(const p of items){ const attempts=(this.retries[p]?.attempts||0)+1; const backoff=Math.min(30*60_000, 15_000*2**(attempts-1)); this.retries[p]={ attempts, nextAttempt:Math.max(now+backoff, failure.retryAt||0), lastError:failure.message }; } this.log('queue_retry',{ items:items.length, status:failure.status, retryAt:failure.retryAt, blockedUntil:this.blockedUntil }, 'WARN'); }
+	private scheduleRetry(){ if(this.retryHandle) clearTimeout(this.retryHandle); this.retryHandle=null; const times=[...this.publishQueue, ...this.pendingRemovals].map(p=>this.retries[p]?.nextAttempt||0).filter(t=>t>0); if(this.blockedUntil>Date.now()) times.push(this.blockedUntil); if(!times.length) return; const delay=Math.max(1000, Math.min(...times)-Date.now()); this.retryHandle=window.setTimeout(async()=>{ this.retryHandle=null; await this.processPublishQueue(); }, delay); }
+	public async retryNow(){ this.log('queue_resume',{ queued:this.publishQueue.size+this.pendingRemovals.size }); if(this.blockedUntil<=Date.now()) for(const r of Object.values(this.retries)) r.nextAttempt=0; if(!this.lastScanSummary) await this.initialRepoScan(); await this.processPublishQueue(); }
 
 	private parseRepo(): { owner:string; repo:string } | null { const u=this.settings.repoUri; if(!u) return null; const m=u.match(/^https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)(?:\.git)?$/); return m?{ owner:m[1], repo:m[2] }:null; }
-	private async fetchContentsSha(owner:string, repo:string, p:string){ const r=await this.githubGet(`https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(p)}?ref=${this.settings.defaultBranch}`); return r?.sha||null; }
-	private async ensureBranchExists(owner:string, repo:string){ const refUrl=`https://api.github.com/repos/${owner}/${repo}/git/ref/heads/${this.settings.defaultBranch}`; const ref=await this.githubGet(refUrl); if(ref?.object?.sha) return ref.object.sha; const ok=await this.initializeBranch(owner,repo); if(!ok) return null; const ref2=await this.githubGet(refUrl); return ref2?.object?.sha||null; }
-	private async initializeBranch(owner:string, repo:string){ try{ const pathName='.gitkeep'; const res=await this.githubPut(`https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(pathName)}`, { message:'Initialize branch', content:this.toBase64('init'), branch:this.settings.defaultBranch }); return !!res?.content?.sha; } catch{ return false; } }
+	private parseHostedRepo(u:string): { origin:string; path:string } | null { const m=(u||'').trim().match(/^(https:\/\/[^/\s]+)\/([^\s?#]+?)(?:\.git)?\/?$/); return m && !m[2].split('/').some(s=>!s || s==='..') ? { origin:m[1], path:m[2] } : null; }
+
+	private async planBatch(paths:string[], removals:string[]=[], ignore?:string){ const changes:FileChange[]=[]; const notes=new Map<string,{ change:FileChange; mtime:number }>(); const moved:string[]=[]; const attachments=new Map<string,TFile>(); for(const p of paths){ const f=this.app.vault.getAbstractFileByPath(p); if(!(f instanceof TFile)){ this.log('skip_not_file',{ path:p }); continue; } if(this.isAttachment(f)){ attachments.set(f.path,f); continue; } const rp=this.repoPath(f); if(!rp){ this.log('skip_unmapped',{ path:p }); continue; } const content=Buffer.from(await this.renderForPublish(f),'utf8'); const change={ path:rp, content, sha:this.gitBlobSha(content) }; changes.push(change); notes.set(p,{ change, mtime:f.stat.mtime }); const prev=this.remotePaths[p]; if(prev && prev!==rp) moved.push(prev); for(const a of this.collectAttachments(f)) if(this.needsAttachmentUpload(a)) attachments.set(a.path,a); } const uploaded:TFile[]=[]; for(const a of attachments.values()){ const rp=this.repoPath(a); if(!rp) continue; if(this.isAttachmentTooLarge(a)){ this.log('skip_large_attachment',{ path:a.path, size:a.stat.size }); continue; } const data=Buffer.from(await this.app.vault.readBinary(a)); changes.push({ path:rp, content:data, sha:this.gitBlobSha(data) }); uploaded.push(a); } const orphans=this.orphanedAttachments(ignore); const removed=[...new Set([...removals, ...moved, ...orphans.map(o=>this.remotePathOf(o))])].filter(r=>!changes.some(c=>c.path===r)); for(const r of removed) changes.push({ path:r, content:null, sha:null }); return { changes, notes, uploaded, orphans, removed }; }
+	private async publishBatch(paths:string[], removals:string[]=[], ignore?:string){ this.log('batch_start',{ count:paths.length, removals:removals.length }); const b=this.createBackend(); if(!b){ this.log('batch_abort_backend'); return false; } const baseSha=await b.ensureBranch(); if(!baseSha){ this.log('batch_abort_branch'); return false; } const { changes, notes, uploaded, orphans, removed }=await this.planBatch(paths, removals, ignore); if(!changes.length){ this.log('batch_no_changes'); return false; } let head=baseSha; let commitSha:string|null=null; let nothingLeft=false; let rejected=false; const kept=new Set<string>(); const conflicted:string[]=[]; for(let attempt=0; attempt<3 && !commitSha; attempt++){ const remote=await b.listTree(head); if(!remote){ if(!this.lastFailure) this.lastFailure={ status:null, message:'Remote-Stand unbekannt: Tree konnte nicht geladen werden', retryAt:null }; this.log('batch_abort_tree',{ head },'WARN'); break; } if(!remote.truncated) for(const c of [...changes]) if(!c.content && !remote.blobs.has(c.path)){ changes.splice(changes.indexOf(c),1); this.log('skip_missing_delete',{ path:c.path }); } let unknown=false; for(const [p,n] of [...notes]){ const known=this.shaMap[p]; if(!known) continue; const at=this.remotePaths[p] ?? n.change.path; let cur=remote.blobs.get(at); if(cur===undefined && remote.truncated){ this.lastFailure=null; cur=await this.remoteBlobSha(b, at) ?? undefined; const f=this.lastFailure as RequestFailure|null; if(cur===undefined && f && f.status!==404){ this.log('conflict_check_unknown',{ path:p },'WARN'); unknown=true; break; } if(cur===undefined) this.lastFailure=null; } if(!cur || cur===known || cur===n.change.sha) continue; this.conflicts.set(p,{ remotePath:at, remoteSha:cur }); notes.delete(p); changes.splice(changes.indexOf(n.change),1); const moveDel=changes.find(c=>!c.content && c.path===at); if(moveDel){ changes.splice(changes.indexOf(moveDel),1); kept.add(at); } conflicted.push(p); this.log('conflict',{ path:p, known, remote:cur, at },'WARN'); } if(unknown) break; for(const c of [...changes]){ const known=c.content ? undefined : this.removalShas[c.path]; const cur=remote.blobs.get(c.path); if(!known || !cur || cur===known) continue; changes.splice(changes.indexOf(c),1); kept.add(c.path); this.log('removal_conflict',{ path:c.path, known, remote:cur },'WARN'); new Notice(`${c.path} wurde im Repository geändert und wird nicht gelöscht – unter "Nur im Repository" prüfen`); } if(!changes.length){ nothingLeft=!conflicted.length; break; } const res=await b.commitChanges(head, changes, `${this.settings.batchCommitMessage} (${new Date().toISOString()})`, remote); rejected=res==='conflict'; if(res!=='conflict'){ commitSha=res; break; } const next=await b.ensureBranch(); if(!next) break; this.log('ref_rebase',{ from:head, to:next, attempt }); head=next; } for(const p of conflicted) new Notice(`Konflikt: ${p} wurde im Repository geändert – im Git Publish Panel lösen`); if(!commitSha && !nothingLeft){ if(rejected && !this.lastFailure){ this.lastFailure={ status:409, message:'Commit abgelehnt: Branch wurde wiederholt verändert', retryAt:null }; new Notice(`${BACKEND_LABELS[this.settings.backend]}: Commit nach mehreren Versuchen abgelehnt – Branch wurde zwischenzeitlich verändert`); } this.log('batch_fail',{ conflicts:conflicted.length, rejected }); return false; } for(const [p,n] of notes){ delete this.revertHolds[p]; this.shaMap[p]=n.change.sha as string; this.localMtimes[p]=n.mtime; this.remotePaths[p]=n.change.path; this.pendingChanges.set(p,false); } for(const a of uploaded){ this.publishedAttachments[a.path]=a.stat.mtime; this.remotePaths[a.path]=this.repoPath(a) as string; this.pendingChanges.delete(a.path); } for(const o of orphans){ delete this.publishedAttachments[o]; delete this.remotePaths[o]; this.pendingChanges.delete(o); } for(const r of removed){ delete this.removalShas[r]; if(!kept.has(r)) this.publishedPaths.delete(r); } for(const c of changes) if(c.content) this.publishedPaths.add(c.path); await this.saveSettings(); this.log('batch_ok',{ commit:commitSha, files:notes.size, attachments:uploaded.length, removed:removed.length, paths:changes.map(c=>c.path) }); new Notice(`Published ${notes.size} Dateien` + (uploaded.length||removed.length ? ` (${uploaded.length} Anhänge, ${removed.length} entfernt)` : '')); if(this.settings.reviewMode && commitSha) await this.updateReview(b, [...notes.values()].map(n=>n.change.path), removed); return true; }
+
+	public async previewPending(): Promise<{ ref:string; items:PreviewItem[] }|null> { const b=this.createBackend(); if(!b) return null; const paths:string[]=[]; for(const p of new Set([...this.publishQueue, ...[...this.pendingChanges].filter(([, pen])=>pen).map(([p])=>p)])){ const f=this.app.vault.getAbstractFileByPath(p); if(f instanceof TFile && this.isSafePath(p) && !this.conflicts.has(p) && !(await this.isTooLarge(f))) paths.push(p); } const { changes }=await this.planBatch(paths, [...this.pendingRemovals]); let ref=this.targetBranch(); let remote=await b.listTree(ref); if(!remote && ref!==this.settings.defaultBranch){ ref=this.settings.defaultBranch; remote=await b.listTree(ref); } if(!remote) return null; const items:PreviewItem[]=[]; for(const c of changes){ const cur=remote.blobs.get(c.path); if(!c.content){ if(cur) items.push({ path:c.path, kind:'deleted', content:null }); } else if(!cur) items.push({ path:c.path, kind:'added', content:c.content }); else if(cur!==c.sha) items.push({ path:c.path, kind:'modified', content:c.content }); } this.log('preview',{ ref, items:items.length }); return { ref, items }; }
+	public async readRemoteFile(p:string, ref?:string){ const b=this.createBackend(); return b ? b.readFile(p, ref) : null; }
+
+	private async updateReview(b:PublishBackend, changed:string[], removed:string[]){ if(!b.upsertReview){ this.log('review_unsupported',{ backend:this.settings.backend },'WARN'); return; } if(this.review && b.getReview){ const cur=await b.getReview(this.review.id); if(cur && cur.state!=='open') this.review=null; } const notes=[...new Set([...(this.review?.notes||[]), ...changed, ...removed.map(r=>`${r} (entfernt)`)])]; const body=`Änderungen aus Obsidian (Git Publisher), Branch \`${this.targetBranch()}\`.\n\nGeänderte Notizen:\n${notes.map(n=>`- ${n}`).join('\n')}`; const info=await b.upsertReview(`${this.settings.batchCommitMessage}: Änderungen aus Obsidian`, body); if(!info){ this.log('review_fail',{ branch:this.targetBranch() },'WARN'); return; } const created=this.review?.id!==info.id; this.review={ ...info, notes }; await this.saveSettings(); this.log('review_ok',{ id:info.id, url:info.url, notes:notes.length }); if(created) new Notice(`Pull Request erstellt: ${info.url}`); this.updatePendingView(); }
+	private readLocalHistory(){ const out:{ ts:string; commit:string; paths:string[]|null }[]=[]; if(!this.logPath) return out; for(const file of [this.logPath+'.1', this.logPath]){ let raw=''; try{ raw=fs.readFileSync(file,'utf8'); } catch { continue; } for(const line of raw.split('\n')){ if(!line.includes('"batch_ok"') && !line.includes('"revert_ok"')) continue; try{ const e=JSON.parse(line); if(e.commit) out.push({ ts:e.ts, commit:e.commit, paths:e.paths ?? null }); } catch { continue; } } } return out.reverse(); }
+	public async loadHistory(limit=20): Promise<HistoryEntry[]> { const local=this.readLocalHistory(); const b=this.createBackend(); const remote=b?.listCommits ? await b.listCommits(null, 50) : null; if(!remote) return local.slice(0,limit).map(e=>({ sha:e.commit, message:this.settings.batchCommitMessage, date:e.ts, url:null, files:e.paths, local:true })); const byCommit=new Map(local.map(e=>[e.commit,e])); const prefixes=[this.settings.batchCommitMessage, 'Unpublish ', 'Revert "']; return remote.filter(c=>byCommit.has(c.sha) || prefixes.some(p=>c.message.startsWith(p))).slice(0,limit).map(c=>({ ...c, files:byCommit.get(c.sha)?.paths ?? null, local:byCommit.has(c.sha) })); }
+	public async commitFiles(sha:string){ const b=this.createBackend(); const info=b?.commitDetails ? await b.commitDetails(sha) : null; return info ? info.files : null; }
+	public invalidateRenderCache(){ this.localMtimes={}; }
+	public heldNotes(){ return Object.keys(this.revertHolds); }
+	public canRevert(){ return !!this.createBackend()?.commitDetails; }
+	public async noteRevisions(file:TFile){ const b=this.createBackend(); const rp=this.remotePaths[file.path] ?? this.repoPath(file); if(!b?.listCommits || !rp) return null; return b.listCommits(rp, 20); }
+	public async loadRevision(file:TFile, sha:string){ const rp=this.remotePaths[file.path] ?? this.repoPath(file); const data=rp ? await this.readRemoteFile(rp, sha) : null; return data ? { remote:data.toString('utf8'), local:await this.renderForPublish(file) } : null; }
+	public async hasLocalOnlySyntax(file:TFile){ return (await this.app.vault.read(file))!==await this.renderForPublish(file); }
+	public async restoreRevision(file:TFile, sha:string){ const rev=await this.loadRevision(file, sha); if(!rev){ new Notice('Version konnte nicht geladen werden'); return; } await this.app.vault.modify(file, rev.remote); this.log('restore',{ path:file.path, commit:sha }); new Notice(`${file.basename}: Version ${sha.slice(0,7)} wiederhergestellt`); }
+	public async revertCommit(entry:HistoryEntry){ const b=this.createBackend(); if(!b?.commitDetails){ new Notice('Zurücknehmen wird vom Backend nicht unterstützt'); return false; } if(this.publishingInProgress){ new Notice('Publish läuft gerade – bitte später erneut versuchen'); return false; } this.publishingInProgress=true; try{ const head=await b.ensureBranch(); const info=head ? await b.commitDetails(entry.sha) : null; if(!head || !info) return false; if(!info.parent){ new Notice('Der erste Commit kann nicht zurückgenommen werden'); return false; } const cur=await b.listTree(head); const at=await b.listTree(entry.sha); const before=await b.listTree(info.parent); if(!cur || !at || !before) return false; const later=info.files.filter(f=>cur.blobs.get(f)!==at.blobs.get(f)); if(later.length){ this.log('revert_blocked',{ commit:entry.sha, later },'WARN'); new Notice(`Zurücknehmen nicht möglich, seitdem erneut geändert: ${later.join(', ')}`); return false; } const changes:FileChange[]=[]; for(const f of info.files){ const prev=before.blobs.get(f); if(prev===cur.blobs.get(f)) continue; if(!prev){ changes.push({ path:f, content:null, sha:null }); continue; } const data=await b.readFile(f, info.parent); if(!data) return false; changes.push({ path:f, content:data, sha:this.gitBlobSha(data) }); } if(!changes.length){ new Notice('Nichts zurückzunehmen'); return false; } const res=await b.commitChanges(head, changes, `Revert "${entry.message}"`, cur); if(!res || res==='conflict'){ this.log('revert_fail',{ commit:entry.sha },'ERROR'); new Notice('Zurücknehmen fehlgeschlagen'); return false; } this.applyRevert(changes); await this.saveSettings(); this.log('revert_ok',{ commit:res, reverted:entry.sha, paths:changes.map(c=>c.path) }); new Notice(`Commit ${entry.sha.slice(0,7)} zurückgenommen`); if(this.settings.reviewMode) await this.updateReview(b, changes.filter(c=>c.content).map(c=>c.path), changes.filter(c=>!c.content).map(c=>c.path)); return true; } finally { this.publishingInProgress=false; this.refreshPublishedStatus(); this.updatePendingView(); } }
+	private applyRevert(changes:FileChange[]){ for(const c of changes) if(c.content) this.publishedPaths.add(c.path); else this.publishedPaths.delete(c.path); const byRemote=new Map(changes.map(c=>[c.path,c])); for(const [p,rp] of Object.entries(this.remotePaths)){ const c=byRemote.get(rp); if(!c) continue; if(this.publishedAttachments[p]!==undefined){ if(!c.content){ delete this.publishedAttachments[p]; delete this.remotePaths[p]; } continue; } if(c.content) this.shaMap[p]=c.sha as string; else { delete this.shaMap[p]; delete this.remotePaths[p]; } delete this.localMtimes[p]; const f=this.app.vault.getAbstractFileByPath(p); if(f instanceof TFile) this.revertHolds[p]=f.stat.mtime; this.pendingChanges.set(p,false); } }
+	public async refreshReviewStatus(){ if(!this.review || !this.settings.reviewMode) return; const b=this.createBackend(); if(!b?.getReview) return; const info=await b.getReview(this.review.id); if(!info) return; this.review={ ...this.review, ...info }; await this.saveSettings(); this.log('review_status',{ id:info.id, state:info.state }); this.updatePendingView(); }
 
-	private async publishBatch(paths:string[]){ this.log('batch_start',{ count:paths.length }); const pr=this.parseRepo(); if(!pr){ this.log('batch_abort_parse'); return; } const { owner, repo }=pr; const baseSha=await this.ensureBranchExists(owner,repo); if(!baseSha){ this.log('batch_abort_branch'); return; } const blobs:{ path:string; mode:string; type:string; sha:string }[]=[]; for(const p of paths){ const f=this.app.vault.getAbstractFileByPath(p); if(!(f instanceof TFile)){ this.log('skip_not_file',{ path:p }); continue; } const content=await this.app.vault.read(f); const blob=await this.githubPost(`https://api.github.com/repos/${owner}/${repo}/git/blobs`, { content, encoding:'utf-8' }); if(blob?.sha) blobs.push({ path:p, mode:'100644', type:'blob', sha:blob.sha }); else this.log('blob_fail',{ path:p }); } if(!blobs.length){ this.log('batch_no_blobs'); return; } const tree=await this.githubPost(`https://api.github.com/repos/${owner}/${repo}/git/trees`, { base_tree:baseSha, tree:blobs }); if(!tree?.sha){ this.log('tree_fail'); return; } const msg=`${this.settings.batchCommitMessage} (${new Date().toISOString()})`; const commit=await this.githubPost(`https://api.github.com/repos/${owner}/${repo}/git/commits`, { message:msg, tree:tree.sha, parents:[baseSha] }); if(!commit?.sha){ this.log('commit_fail'); return; } const updated=await this.githubPatch(`https://api.github.com/repos/${owner}/${repo}/git/refs/heads/${this.settings.defaultBranch}`, { sha:commit.sha, force:false }); if(updated){ for(const p of paths) this.pendingChanges.set(p,false); await this.saveSettings(); this.log('batch_ok',{ commit:commit.sha, files:paths.length }); new Notice(`Published ${paths.length} Dateien`); } else this.log('ref_fail'); }
+	public async loadConflict(file:TFile){ const c=this.conflicts.get(file.path); const b=this.createBackend(); if(!c || !b) return null; const remote=await b.readFile(c.remotePath); if(!remote) return null; return { local:await this.renderForPublish(file), raw:await this.app.vault.read(file), remote:remote.toString('utf8') }; }
+	public async resolveConflict(file:TFile, choice:'local'|'remote'|'merge', content?:string){ const c=this.conflicts.get(file.path); if(!c) return; this.conflicts.delete(file.path); this.shaMap[file.path]=c.remoteSha; this.remotePaths[file.path]=c.remotePath; this.publishedPaths.add(c.remotePath); this.log('conflict_resolved',{ path:file.path, choice }); if(choice==='remote'){ await this.app.vault.modify(file, content ?? ''); this.pendingChanges.set(file.path,false); this.localMtimes[file.path]=file.stat.mtime; await this.saveSettings(); } else { if(choice==='merge' && content!==undefined) await this.app.vault.modify(file, content); this.pendingChanges.set(file.path,true); await this.queueFileForPublish(file); } this.refreshPublishedStatus(); this.updatePendingView(); }
 
-	private async deleteFileFromRepo(file:TFile){ const pr=this.parseRepo(); if(!pr) return; const { owner, repo }=pr; const sha=await this.fetchContentsSha(owner,repo,file.path); if(!sha){ this.log('delete_missing_remote',{ path:file.path }); return; } const res=await this.githubDelete(`https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(file.path)}`, { message:`Unpublish ${file.path}`, branch:this.settings.defaultBranch, sha }); if(res){ this.pendingChanges.delete(file.path); this.log('deleted',{ path:file.path }); } }
+	private async deleteFileFromRepo(file:TFile){ const b=this.createBackend(); if(!b) return; const rp=this.remotePaths[file.path] ?? this.repoPath(file) ?? this.mapVaultPath(file.path); if(this.pendingRemovals.has(rp)){ await this.processPublishQueue(); return; } const ok=await b.deleteFile(rp, `Unpublish ${rp}`); if(ok){ this.publishedPaths.delete(rp); this.pendingChanges.delete(file.path); delete this.shaMap[file.path]; delete this.localMtimes[file.path]; delete this.remotePaths[file.path]; this.log('deleted',{ path:file.path, remote:rp }); if(this.settings.reviewMode) await this.updateReview(b, [], [rp]); } }
 
 	private async togglePublished(file:TFile){ const cur=await this.getPublished(file); await this.setPublished(file,!cur); }
-	private async setPublished(file:TFile, value:boolean){ await this.app.fileManager.processFrontMatter(file,fm=>{ fm.published=value; }); if(value){ new Notice(`${file.basename} published`); this.pendingChanges.set(file.path,true); this.log('flag_on',{ path:file.path }); } else { new Notice(`${file.basename} unpublished`); await this.deleteFileFromRepo(file); this.log('flag_off',{ path:file.path }); } setTimeout(()=>{ this.refreshPublishedStatus(); this.updatePendingView(); },150); }
-	private async ensurePublishedProperty(file:TFile,silent:boolean=false){ const c=this.app.metadataCache.getFileCache(file); const has=c?.frontmatter && Object.prototype.hasOwnProperty.call(c.frontmatter,'published'); if(has){ if(!silent) new Notice('published existiert'); return false; } await this.app.fileManager.processFrontMatter(file,fm=>{ fm.published=false; }); if(!silent) new Notice('published hinzugefügt'); setTimeout(()=>{ this.refreshPublishedStatus(); this.updatePendingView(); },120); return true; }
-	private async getPublished(file:TFile){ const c=this.app.metadataCache.getFileCache(file); return c?.frontmatter?.published===true; }
+	private async setPublished(file:TFile, value:boolean){ await this.app.fileManager.processFrontMatter(file,fm=>{ fm.published=value; }); if(value){ new Notice(`${file.basename} published`); this.pendingChanges.set(file.path,true); this.log('flag_on',{ path:file.path }); } else { new Notice(`${file.basename} unpublished`); await this.deleteFileFromRepo(file); this.log('flag_off',{ path:file.path }); await this.pruneAttachments(file.path); } setTimeout(()=>{ this.refreshPublishedStatus(); this.updatePendingView(); },150); }
+	private async ensurePublishedProperty(file:TFile,silent:boolean=false){ const c=this.app.metadataCache.getFileCache(file); const has=c?.frontmatter && Object.prototype.hasOwnProperty.call(c.frontmatter,'published'); if(has){ if(!silent) new Notice('published existiert'); return false; } const value=this.isPublishedNote(file); await this.app.fileManager.processFrontMatter(file,fm=>{ fm.published=value; }); if(!silent) new Notice(`published: ${value} hinzugefügt`); setTimeout(()=>{ this.refreshPublishedStatus(); this.updatePendingView(); },120); return true; }
+	private async getPublished(file:TFile){ return this.isPublishedNote(file); }
 
-	private refreshPublishedStatus(){ if(!this.publishedCheckbox||!this.publishedTrack) return; const f=this.app.workspace.getActiveFile(); if(!f){ this.publishedCheckbox.checked=false; this.publishedCheckbox.disabled=true; this.publishedTrack.classList.remove('is-on'); this.publishedTrack.classList.add('is-disabled'); this.publishedTrack.classList.remove('has-pending'); return; } this.publishedCheckbox.disabled=false; const c=this.app.metadataCache.getFileCache(f); const val=c?.frontmatter?.published===true; this.publishedCheckbox.checked=val; this.publishedTrack.classList.toggle('is-on',val); this.publishedTrack.classList.remove('is-disabled'); const pen=this.pendingChanges.get(f.path); this.publishedTrack.classList.toggle('has-pending', !!pen && val); }
+	private refreshPublishedStatus(){ if(!this.publishedCheckbox||!this.publishedTrack) return; const f=this.app.workspace.getActiveFile(); if(!f){ this.publishedCheckbox.checked=false; this.publishedCheckbox.disabled=true; this.publishedTrack.classList.remove('is-on'); this.publishedTrack.classList.add('is-disabled'); this.publishedTrack.classList.remove('has-pending'); return; } this.publishedCheckbox.disabled=false; const val=this.isPublishedNote(f); this.publishedCheckbox.checked=val; this.publishedTrack.classList.toggle('is-on',val); this.publishedTrack.classList.remove('is-disabled'); const pen=this.pendingChanges.get(f.path); this.publishedTrack.classList.toggle('has-pending', !!pen && val); }
 	private updatePendingView(){ for(const leaf of this.app.workspace.getLeavesOfType('gitpublish-pending-view')){ const v=leaf.view; if(v instanceof PendingView) v.render(); } }
 
 	private initLogging(){ try{ const base=(this.app.vault as any).adapter?.getBasePath?.()||''; if(base){ this.logPath=path.join(base,'.obsidian','plugins','obsidian-gitpublish','gitpublish-log.ndjson'); this.ensureLogFile(); this.log('logger_init', { path:this.logPath }); } } catch { this.logPath=null; } }
 	private ensureLogFile(){ if(!this.logPath) return; try{ if(!fs.existsSync(this.logPath)) fs.writeFileSync(this.logPath,''); const s=fs.statSync(this.logPath); if(s.size>1_000_000){ const rot=this.logPath+'.1'; try{ fs.renameSync(this.logPath,rot); }catch{} fs.writeFileSync(this.logPath,''); this.log('log_rotate',{ old:rot }); } } catch{} }
-	private log(msg:string, meta:any={}, level:'INFO'|'WARN'|'ERROR'='INFO'){ if(!this.logPath) return; const entry={ ts:new Date().toISOString(), level, msg, ...meta }; try{ fs.appendFileSync(this.logPath, JSON.stringify(entry)+'\n'); } catch{} }
+	public log(msg:string, meta:any={}, level:'INFO'|'WARN'|'ERROR'='INFO'){ if(!this.logPath) return; const entry={ ts:new Date().toISOString(), level, msg, ...meta }; try{ fs.appendFileSync(this.logPath, JSON.stringify(entry)+'\n'); } catch{} }
+
+	private async initialRepoScan(){ if(!this.ensureBackendConfig()) return; const b=this.createBackend(); if(!b) return; await this.scanPublishedFiles(b); this.updatePendingView(); }
+	private async scanPublishedFiles(b:PublishBackend){ const head=await b.ensureBranch(); if(!head){ this.log('scan_abort_branch'); return; } const remote=await b.listTree(head); if(!remote){ this.log('scan_abort_tree'); return; } let total=0,outOfSync=0,missing=0,cached=0; const expected=new Set<string>(); for(const f of this.app.vault.getMarkdownFiles()){ if(!this.isPublishedNote(f)) continue; const rp=this.repoPath(f); if(!rp) continue; total++; expected.add(rp); const hold=this.revertHolds[f.path]; if(hold!==undefined){ if(hold===f.stat.mtime){ this.pendingChanges.set(f.path,false); continue; } delete this.revertHolds[f.path]; } const remoteSha=remote.blobs.get(rp) ?? (remote.truncated ? await this.remoteBlobSha(b,rp) : null); if(!remoteSha){ this.pendingChanges.set(f.path,true); missing++; continue; } if(this.shaMap[f.path]===remoteSha && this.localMtimes[f.path]===f.stat.mtime){ this.pendingChanges.set(f.path,false); this.remotePaths[f.path]=rp; this.publishedPaths.add(rp); cached++; continue; } const localSha=this.gitBlobSha(await this.renderForPublish(f)); if(localSha!==remoteSha){ this.pendingChanges.set(f.path,true); outOfSync++; } else { this.pendingChanges.set(f.path,false); this.shaMap[f.path]=remoteSha; this.localMtimes[f.path]=f.stat.mtime; this.remotePaths[f.path]=rp; this.publishedPaths.add(rp); } } for(const a of Object.keys(this.publishedAttachments)) expected.add(this.remotePathOf(a)); if(!remote.truncated) for(const rp of [...this.publishedPaths]) if(!remote.blobs.has(rp)) this.publishedPaths.delete(rp); const owned=new Set(Object.entries(this.remotePaths).filter(([p])=>{ const f=this.app.vault.getAbstractFileByPath(p); return f instanceof TFile && (this.isAttachment(f) ? this.publishedAttachments[p]!==undefined : this.isPublishedNote(f)); }).map(([, rp])=>rp)); this.remoteOrphans=[...remote.blobs.keys()].filter(rp=>this.publishedPaths.has(rp) && !expected.has(rp) && !owned.has(rp) && !this.pendingRemovals.has(rp)); this.lastScanSummary={ total,outOfSync,missing, orphaned:this.remoteOrphans.length, cached, ts:Date.now() }; await this.saveSettings(); this.log('scan_done', this.lastScanSummary); }
+	private async remoteBlobSha(b:PublishBackend, rp:string){ const data=await b.readFile(rp); return data ? this.gitBlobSha(data) : null; }
+	public async removeRemoteOrphan(rp:string){ this.remoteOrphans=this.remoteOrphans.filter(p=>p!==rp); this.pendingRemovals.add(rp); this.log('orphan_remove',{ path:rp }); await this.processPublishQueue(); }
+}
+
+class GitHubBackend implements PublishBackend {
+	private api: string;
+	constructor(private plugin:GitPublisherPlugin, private owner:string, repo:string){ this.api=`https://api.github.com/repos/${owner}/${repo}`; }
+	private get branch(){ return this.plugin.targetBranch(); }
+	private req(method:'get'|'post'|'put'|'patch'|'delete', url:string, data?:any, retryable?:number[]){ return this.plugin.httpReq(method, this.api+url, data, { Authorization:`Bearer ${this.plugin.settings.githubToken}`, Accept:'application/vnd.github.v3+json' }, retryable); }
+	async ensureBranch(){ const refUrl=`/git/ref/heads/${this.branch}`; this.plugin.lastFailure=null; const ref=await this.req('get',refUrl); if(ref?.object?.sha) return ref.object.sha; if(this.plugin.lastFailure && this.plugin.isRetryable(this.plugin.lastFailure)) return null; const base=this.plugin.settings.defaultBranch; if(this.branch!==base){ const from=await this.req('get',`/git/ref/heads/${base}`); if(!from?.object?.sha) return null; const created=await this.req('post','/git/refs', { ref:`refs/heads/${this.branch}`, sha:from.object.sha }); return created?.object?.sha||null; } const init=await this.req('put','/contents/.gitkeep', { message:'Initialize branch', content:Buffer.from('init').toString('base64'), branch:this.branch }); if(!init?.content?.sha) return null; const ref2=await this.req('get',refUrl); return ref2?.object?.sha||null; }
+	async listTree(head:string){ const r=await this.req('get',`/git/trees/${head}?recursive=1`); if(!r?.tree) return null; const blobs=new Map<string,string>(); for(const e of r.tree) if(e.type==='blob') blobs.set(e.path,e.sha); if(r.truncated) this.plugin.log('scan_tree_truncated',{ entries:blobs.size },'WARN'); return { blobs, truncated:!!r.truncated }; }
+	async commitChanges(head:string, changes:FileChange[], message:string): Promise<string|'conflict'|null> { const entries:{ path:string; mode:string; type:string; sha:string|null }[]=[]; for(const c of changes){ if(!c.content){ entries.push({ path:c.path, mode:'100644', type:'blob', sha:null }); continue; } const blob=await this.req('post','/git/blobs', { content:c.content.toString('base64'), encoding:'base64' }); if(!blob?.sha){ this.plugin.log('blob_fail',{ path:c.path }); return null; } entries.push({ path:c.path, mode:'100644', type:'blob', sha:blob.sha }); } const tree=await this.req('post','/git/trees', { base_tree:head, tree:entries }); if(!tree?.sha){ this.plugin.log('tree_fail'); return null; } const commit=await this.req('post','/git/commits', { message, tree:tree.sha, parents:[head] }); if(!commit?.sha){ this.plugin.log('commit_fail'); return null; } const updated=await this.req('patch',`/git/refs/heads/${this.branch}`, { sha:commit.sha, force:false }, [409,422]); if(updated?.conflict){ if(updated.conflict===409 || /not a fast.forward/i.test(updated.message)) return 'conflict'; this.plugin.lastFailure={ status:updated.conflict, message:`HTTP ${updated.conflict}: ${updated.message}`, retryAt:null }; this.plugin.log('ref_rejected',{ status:updated.conflict, message:updated.message },'ERROR'); new Notice(`GitHub Fehler ${updated.conflict}: ${updated.message || 'Push abgelehnt'}`); return null; } if(!updated){ this.plugin.log('ref_fail'); return null; } return commit.sha; }
+	async deleteFile(p:string, message:string){ const r=await this.req('get',`/contents/${encodeURIComponent(p)}?ref=${this.branch}`); if(!r?.sha){ this.plugin.log('delete_missing_remote',{ remote:p }); return false; } const res=await this.req('delete',`/contents/${encodeURIComponent(p)}`, { message, branch:this.branch, sha:r.sha }); return !!res; }
+	async readFile(p:string, ref?:string){ const r=await this.req('get',`/contents/${encodeURIComponent(p)}?ref=${ref ?? this.branch}`); return typeof r?.content==='string' ? Buffer.from(r.content,'base64') : null; }
+	async upsertReview(title:string, body:string){ const base=this.plugin.settings.defaultBranch; const open=await this.req('get',`/pulls?state=open&head=${encodeURIComponent(`${this.owner}:${this.branch}`)}&base=${encodeURIComponent(base)}`); const pr=Array.isArray(open) && open.length ? await this.req('patch',`/pulls/${open[0].number}`, { body }) : await this.req('post','/pulls', { title, head:this.branch, base, body }); return pr?.number ? this.toReview(pr) : null; }
+	async getReview(id:number){ const pr=await this.req('get',`/pulls/${id}`); return pr?.number ? this.toReview(pr) : null; }
+	private toReview(pr:any): ReviewInfo { return { id:pr.number, url:pr.html_url, state:pr.merged || pr.merged_at ? 'merged' : pr.state==='open' ? 'open' : 'closed', mergeable:pr.mergeable ?? null }; }
+	async listCommits(p:string|null, limit:number){ const r=await this.req('get',`/commits?sha=${encodeURIComponent(this.branch)}&per_page=${limit}${p ? `&path=${encodeURIComponent(p)}` : ''}`); return Array.isArray(r) ? r.map((c:any)=>({ sha:c.sha, message:String(c.commit?.message||'').split('\n')[0], date:c.commit?.committer?.date || c.commit?.author?.date || '', url:c.html_url || null })) : null; }
+	async commitDetails(sha:string){ const c=await this.req('get',`/commits/${sha}`); if(!c?.sha) return null; return { parent:c.parents?.[0]?.sha || null, files:[...new Set<string>((c.files||[]).flatMap((f:any)=>f.previous_filename ? [f.filename, f.previous_filename] : [f.filename]))] }; }
+}
+
+class GitLabBackend implements PublishBackend {
+	private api: string;
+	constructor(private plugin:GitPublisherPlugin, origin:string, project:string){ this.api=`${origin}/api/v4/projects/${encodeURIComponent(project)}`; }
+	private get branch(){ return this.plugin.targetBranch(); }
+	private req(method:'get'|'post'|'put'|'delete', url:string, data?:any){ return this.plugin.httpReq(method, this.api+url, data, { 'PRIVATE-TOKEN':this.plugin.settings.gitlabToken }); }
+	private async head(){ const b=await this.req('get',`/repository/branches/${encodeURIComponent(this.branch)}`); return (b?.commit?.id as string)||null; }
+	async ensureBranch(){ this.plugin.lastFailure=null; const id=await this.head(); if(id) return id; if(this.plugin.lastFailure && this.plugin.isRetryable(this.plugin.lastFailure)) return null; const project=await this.req('get',''); if(!project) return null; if(project.default_branch && !project.empty_repo){ const from=this.branch!==this.plugin.settings.defaultBranch ? this.plugin.settings.defaultBranch : project.default_branch; const created=await this.req('post',`/repository/branches?branch=${encodeURIComponent(this.branch)}&ref=${encodeURIComponent(from)}`); return created?.commit?.id||null; } const init=await this.req('post','/repository/commits', { branch:this.branch, commit_message:'Initialize branch', actions:[{ action:'create', file_path:'.gitkeep', content:'init' }] }); return init?.id||null; }
+	async listTree(head:string){ const blobs=new Map<string,string>(); for(let page=1; page<=100; page++){ const r=await this.req('get',`/repository/tree?ref=${encodeURIComponent(head)}&recursive=true&per_page=100&page=${page}`); if(!Array.isArray(r)) return page===1 ? null : { blobs, truncated:true }; for(const e of r) if(e.type==='blob') blobs.set(e.path,e.id); if(r.length<100) return { blobs, truncated:false }; } this.plugin.log('scan_tree_truncated',{ entries:blobs.size },'WARN'); return { blobs, truncated:true }; }
+	async commitChanges(head:string, changes:FileChange[], message:string, tree?:RemoteTree): Promise<string|'conflict'|null> { if(await this.head()!==head) return 'conflict'; const remote=tree ?? await this.listTree(head); if(!remote) return null; const actions=changes.filter(c=>c.content || remote.blobs.has(c.path)).map(c=>c.content ? { action:remote.blobs.has(c.path) ? 'update' : 'create', file_path:c.path, content:c.content.toString('base64'), encoding:'base64' } : { action:'delete', file_path:c.path }); if(!actions.length) return head; const r=await this.req('post','/repository/commits', { branch:this.branch, commit_message:message, actions }); if(!r?.id){ this.plugin.log('commit_fail'); return null; } return r.id; }
+	async deleteFile(p:string, message:string){ const head=await this.ensureBranch(); if(!head) return false; const res=await this.commitChanges(head,[{ path:p, content:null, sha:null }],message); return !!res && res!=='conflict'; }
+	async readFile(p:string, ref?:string){ const r=await this.req('get',`/repository/files/${encodeURIComponent(p)}?ref=${encodeURIComponent(ref ?? this.branch)}`); return typeof r?.content==='string' ? Buffer.from(r.content,'base64') : null; }
+	async upsertReview(title:string, body:string){ const base=this.plugin.settings.defaultBranch; const open=await this.req('get',`/merge_requests?state=opened&source_branch=${encodeURIComponent(this.branch)}&target_branch=${encodeURIComponent(base)}`); const mr=Array.isArray(open) && open.length ? await this.req('put',`/merge_requests/${open[0].iid}`, { description:body }) : await this.req('post','/merge_requests', { source_branch:this.branch, target_branch:base, title, description:body }); return mr?.iid ? this.toReview(mr) : null; }
+	async getReview(id:number){ const mr=await this.req('get',`/merge_requests/${id}`); return mr?.iid ? this.toReview(mr) : null; }
+	async listCommits(p:string|null, limit:number){ const r=await this.req('get',`/repository/commits?ref_name=${encodeURIComponent(this.branch)}&per_page=${limit}${p ? `&path=${encodeURIComponent(p)}` : ''}`); return Array.isArray(r) ? r.map((c:any)=>({ sha:c.id, message:c.title || '', date:c.committed_date || c.created_at || '', url:c.web_url || null })) : null; }
+	async commitDetails(sha:string){ const c=await this.req('get',`/repository/commits/${sha}`); const diff=c?.id ? await this.req('get',`/repository/commits/${sha}/diff?per_page=100`) : null; if(!Array.isArray(diff)) return null; return { parent:c.parent_ids?.[0] || null, files:[...new Set<string>(diff.flatMap((d:any)=>[d.new_path, d.old_path]))] }; }
+	private toReview(mr:any): ReviewInfo { const status=mr.detailed_merge_status ?? mr.merge_status; return { id:mr.iid, url:mr.web_url, state:mr.state==='merged' ? 'merged' : mr.state==='opened' ? 'open' : 'closed', mergeable:status ? status==='mergeable' || status==='can_be_merged' : null }; }
+}
 
-	private async initialRepoScan(){ if(!this.ensureGitHubConfig()) return; const pr=this.parseRepo(); if(!pr) return; const repoInfo=await this.githubGet(`https://api.github.com/repos/${pr.owner}/${pr.repo}`); if(!repoInfo) return; const baseSha=await this.ensureBranchExists(pr.owner,pr.repo); if(!baseSha) return; await this.scanPublishedFiles(pr.owner,pr.repo); this.updatePendingView(); }
-	private async scanPublishedFiles(owner:string, repo:string){ const files=this.app.vault.getMarkdownFiles(); let total=0,outOfSync=0,missing=0; for(const f of files){ const c=this.app.metadataCache.getFileCache(f); if(c?.frontmatter?.published!==true) continue; total++; const remote=await this.githubGet(`https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(f.path)}?ref=${this.settings.defaultBranch}`); if(!remote||!remote.content){ this.pendingChanges.set(f.path,true); missing++; continue; } const local=await this.app.vault.read(f); const localB64=this.toBase64(local); const remoteB64=(remote.content as string).replace(/\n/g,''); if(localB64!==remoteB64){ this.pendingChanges.set(f.path,true); outOfSync++; } else { this.pendingChanges.set(f.path,false); this.shaMap[f.path]=remote.sha; } } this.lastScanSummary={ total,outOfSync,missing, ts:Date.now() }; this.log('scan_done', this.lastScanSummary); }
+class GiteaBackend implements PublishBackend {
+	private api: string;
+	constructor(private plugin:GitPublisherPlugin, origin:string, owner:string, repo:string){ this.api=`${origin}/api/v1/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`; }
+	private get branch(){ return this.plugin.targetBranch(); }
+	private req(method:'get'|'post'|'put'|'patch'|'delete', url:string, data?:any, retryable?:number[]){ return this.plugin.httpReq(method, this.api+url, data, { Authorization:`token ${this.plugin.settings.giteaToken}` }, retryable); }
+	private encodePath(p:string){ return p.split('/').map(encodeURIComponent).join('/'); }
+	private async head(){ const b=await this.req('get',`/branches/${encodeURIComponent(this.branch)}`); return (b?.commit?.id as string)||null; }
+	async ensureBranch(){ this.plugin.lastFailure=null; const id=await this.head(); if(id) return id; if(this.plugin.lastFailure && this.plugin.isRetryable(this.plugin.lastFailure)) return null; const repo=await this.req('get',''); if(!repo) return null; if(repo.default_branch && !repo.empty){ const from=this.branch!==this.plugin.settings.defaultBranch ? this.plugin.settings.defaultBranch : repo.default_branch; const created=await this.req('post','/branches', { new_branch_name:this.branch, old_branch_name:from }); return created?.commit?.id||null; } const init=await this.req('post','/contents/.gitkeep', { content:Buffer.from('init').toString('base64'), message:'Initialize branch', new_branch:this.branch }); if(!init) return null; return this.head(); }
+	async listTree(head:string){ const blobs=new Map<string,string>(); for(let page=1; page<=50; page++){ const r=await this.req('get',`/git/trees/${head}?recursive=true&per_page=1000&page=${page}`); if(!r?.tree) return page===1 ? null : { blobs, truncated:true }; for(const e of r.tree) if(e.type==='blob') blobs.set(e.path,e.sha); if(!r.truncated) return { blobs, truncated:false }; } this.plugin.log('scan_tree_truncated',{ entries:blobs.size },'WARN'); return { blobs, truncated:true }; }
+	async commitChanges(head:string, changes:FileChange[], message:string, tree?:RemoteTree): Promise<string|'conflict'|null> { if(await this.head()!==head) return 'conflict'; const remote=tree ?? await this.listTree(head); if(!remote) return null; const files=changes.filter(c=>c.content || remote.blobs.has(c.path)).map(c=>c.content ? { operation:remote.blobs.has(c.path) ? 'update' : 'create', path:c.path, content:c.content.toString('base64'), sha:remote.blobs.get(c.path) } : { operation:'delete', path:c.path, sha:remote.blobs.get(c.path) }); if(!files.length) return head; const r=await this.req('post','/contents', { branch:this.branch, message, files }, [409,422]); if(r?.conflict) return 'conflict'; if(!r?.commit?.sha){ this.plugin.log('commit_fail'); return null; } return r.commit.sha; }
+	async deleteFile(p:string, message:string){ const head=await this.ensureBranch(); if(!head) return false; const res=await this.commitChanges(head,[{ path:p, content:null, sha:null }],message); return !!res && res!=='conflict'; }
+	async readFile(p:string, ref?:string){ const r=await this.req('get',`/contents/${this.encodePath(p)}?ref=${encodeURIComponent(ref ?? this.branch)}`); return typeof r?.content==='string' ? Buffer.from(r.content,'base64') : null; }
+	async upsertReview(title:string, body:string){ const base=this.plugin.settings.defaultBranch; const open=await this.req('get','/pulls?state=open&limit=50'); const existing=Array.isArray(open) ? open.find((p:any)=>p.head?.ref===this.branch && p.base?.ref===base) : null; const pr=existing ? await this.req('patch',`/pulls/${existing.number}`, { body }) : await this.req('post','/pulls', { head:this.branch, base, title, body }); return pr?.number ? this.toReview(pr) : null; }
+	async getReview(id:number){ const pr=await this.req('get',`/pulls/${id}`); return pr?.number ? this.toReview(pr) : null; }
+	async listCommits(p:string|null, limit:number){ const r=await this.req('get',`/commits?sha=${encodeURIComponent(this.branch)}&limit=${limit}&stat=false&files=false${p ? `&path=${encodeURIComponent(p)}` : ''}`); return Array.isArray(r) ? r.map((c:any)=>({ sha:c.sha, message:String(c.commit?.message||'').split('\n')[0], date:c.commit?.committer?.date || c.commit?.author?.date || c.created || '', url:c.html_url || null })) : null; }
+	async commitDetails(sha:string){ const c=await this.req('get',`/git/commits/${sha}`); if(!c?.sha) return null; return { parent:c.parents?.[0]?.sha || null, files:(c.files||[]).map((f:any)=>f.filename as string) }; }
+	private toReview(pr:any): ReviewInfo { return { id:pr.number, url:pr.html_url, state:pr.merged ? 'merged' : pr.state==='open' ? 'open' : 'closed', mergeable:pr.mergeable ?? null }; }
+}
+
+class LocalFolderBackend implements PublishBackend {
+	constructor(private plugin:GitPublisherPlugin, private root:string){}
+	private resolve(p:string){ const base=path.resolve(this.root); const full=path.resolve(base,p); return full.startsWith(base+path.sep) ? full : null; }
+	async ensureBranch(){ try{ if(fs.statSync(this.root).isDirectory()) return 'worktree'; } catch(e:any){ this.plugin.log('local_err',{ root:this.root, message:e.message },'ERROR'); } new Notice(`Zielordner nicht gefunden: ${this.root}`); return null; }
+	private static hashes=new Map<string,{ mtimeMs:number; size:number; sha:string }>();
+	private hashFile(full:string){ const st=fs.statSync(full); const hit=LocalFolderBackend.hashes.get(full); if(hit && hit.mtimeMs===st.mtimeMs && hit.size===st.size) return hit.sha; const sha=this.plugin.gitBlobSha(fs.readFileSync(full)); LocalFolderBackend.hashes.set(full,{ mtimeMs:st.mtimeMs, size:st.size, sha }); return sha; }
+	async listTree(){ const blobs=new Map<string,string>(); const walk=(dir:string, rel:string)=>{ for(const e of fs.readdirSync(dir,{ withFileTypes:true })){ if(e.name==='.git') continue; const r=rel ? `${rel}/${e.name}` : e.name; const full=path.join(dir,e.name); if(e.isDirectory()) walk(full,r); else if(e.isFile()) blobs.set(r,this.hashFile(full)); } }; try{ walk(this.root,''); } catch(e:any){ this.plugin.log('local_err',{ root:this.root, message:e.message },'ERROR'); return null; } return { blobs, truncated:false }; }
+	async commitChanges(head:string, changes:FileChange[], message:string): Promise<string|'conflict'|null> { const staged:[string,string][]=[]; try{ for(const c of changes){ const full=this.resolve(c.path); if(!full) throw new Error(`Ungültiger Pfad ${c.path}`); if(!c.content) continue; fs.mkdirSync(path.dirname(full),{ recursive:true }); fs.writeFileSync(full+'.gitpublish-tmp', c.content); staged.push([full+'.gitpublish-tmp', full]); } for(const [tmp,full] of staged) fs.renameSync(tmp,full); for(const c of changes){ const full=this.resolve(c.path); if(!c.content && full && fs.existsSync(full)) fs.unlinkSync(full); } this.plugin.log('local_write',{ root:this.root, files:changes.length }); return head; } catch(e:any){ for(const [tmp] of staged) if(fs.existsSync(tmp)) fs.unlinkSync(tmp); this.plugin.log('local_err',{ root:this.root, message:e.message },'ERROR'); new Notice(`Lokaler Zielordner: ${e.message}`); return null; } }
+	async deleteFile(p:string, message:string){ return (await this.commitChanges('worktree',[{ path:p, content:null, sha:null }],message))!==null; }
+	async readFile(p:string){ const full=this.resolve(p); if(!full || !fs.existsSync(full)) return null; return fs.readFileSync(full); }
 }
 
 class GitPublisherSettingTab extends PluginSettingTab {
 	constructor(app:App, private plugin:GitPublisherPlugin){ super(app, plugin); }
-	display(){ const { containerEl }=this; containerEl.empty(); containerEl.createEl('h2',{ text:'Git Publisher Einstellungen' }); containerEl.createEl('p',{ text:'Dieses Plugin veröffentlicht Markdown-Dateien mit Frontmatter published:true automatisiert auf ein GitHub Repository.' }); containerEl.createEl('p',{ text:'Ablauf: Wenn du tippst starten Timer. Inaktivität löst Einzel-Publish aus, spätestens nach Session-Intervall werden alle pending Dateien im Batch übertragen.' }); containerEl.createEl('p',{ text:'Toggle unten rechts zeigt Status (grün=published, blau=pending Änderungen). Unpublished entfernt Datei aus Repo.' });
-		new Setting(containerEl).setName('GitHub Repo URL').setDesc('Format: https://github.com/OWNER/REPO oder mit .git').addText(t=>t.setPlaceholder('https://github.com/user/repo').setValue(this.plugin.settings.repoUri).onChange(async v=>{ this.plugin.settings.repoUri=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
-		new Setting(containerEl).setName('GitHub Token').setDesc('Fine-grained Token: Contents Read/Write').addText(t=>{ t.inputEl.type='password'; t.setPlaceholder('ghp_...').setValue(this.plugin.settings.githubToken).onChange(async v=>{ this.plugin.settings.githubToken=v.trim(); await this.plugin.saveSettings(); }); });
+	display(){ const { containerEl }=this; containerEl.empty(); containerEl.createEl('h2',{ text:'Git Publisher Einstellungen' }); containerEl.createEl('p',{ text:'Dieses Plugin veröffentlicht Markdown-Dateien mit Frontmatter published:true automatisiert auf ein Git Repository (GitHub, GitLab, Gitea/Forgejo oder lokaler Klon).' }); containerEl.createEl('p',{ text:'Ablauf: Wenn du tippst starten Timer. Inaktivität löst Einzel-Publish aus, spätestens nach Session-Intervall werden alle pending Dateien im Batch übertragen.' }); containerEl.createEl('p',{ text:'Toggle unten rechts zeigt Status (grün=published, blau=pending Änderungen). Unpublished entfernt Datei aus Repo.' });
+		new Setting(containerEl).setName('Backend').setDesc('Ziel für veröffentlichte Dateien').addDropdown(d=>{ for(const [k,v] of Object.entries(BACKEND_LABELS)) d.addOption(k,v); d.setValue(this.plugin.settings.backend).onChange(async v=>{ this.plugin.settings.backend=v as BackendKind; this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); this.display(); }); });
+		const backend=this.plugin.settings.backend;
+		if(backend==='github'){
+			new Setting(containerEl).setName('GitHub Repo URL').setDesc('Format: https://github.com/OWNER/REPO oder mit .git').addText(t=>t.setPlaceholder('https://github.com/user/repo').setValue(this.plugin.settings.repoUri).onChange(async v=>{ this.plugin.settings.repoUri=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
+			new Setting(containerEl).setName('GitHub Token').setDesc('Fine-grained Token: Contents Read/Write').addText(t=>{ t.inputEl.type='password'; t.setPlaceholder('ghp_...').setValue(this.plugin.settings.githubToken).onChange(async v=>{ this.plugin.settings.githubToken=v.trim(); await this.plugin.saveSettings(); }); });
+		} else if(backend==='gitlab'){
+			new Setting(containerEl).setName('GitLab Projekt URL').setDesc('Format: https://gitlab.example.com/GRUPPE/PROJEKT (nur https)').addText(t=>t.setPlaceholder('https://gitlab.com/group/project').setValue(this.plugin.settings.gitlabUrl).onChange(async v=>{ this.plugin.settings.gitlabUrl=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
+			new Setting(containerEl).setName('GitLab Token').setDesc('Personal/Project Access Token mit Scope api').addText(t=>{ t.inputEl.type='password'; t.setPlaceholder('glpat-...').setValue(this.plugin.settings.gitlabToken).onChange(async v=>{ this.plugin.settings.gitlabToken=v.trim(); await this.plugin.saveSettings(); }); });
+		} else if(backend==='gitea'){
+			new Setting(containerEl).setName('Gitea/Forgejo Repo URL').setDesc('Format: https://gitea.example.com/OWNER/REPO (nur https)').addText(t=>t.setPlaceholder('https://gitea.example.com/user/repo').setValue(this.plugin.settings.giteaUrl).onChange(async v=>{ this.plugin.settings.giteaUrl=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
+			new Setting(containerEl).setName('Gitea/Forgejo Token').setDesc('Access Token mit Berechtigung repository: Read & Write').addText(t=>{ t.inputEl.type='password'; t.setValue(this.plugin.settings.giteaToken).onChange(async v=>{ this.plugin.settings.giteaToken=v.trim(); await this.plugin.saveSettings(); }); });
+		} else {
+			new Setting(containerEl).setName('Lokaler Ordner').setDesc('Absoluter Pfad zu einem lokalen Git-Klon. Dateien werden nur geschrieben, Commit & Push übernimmt ein anderer Prozess').addText(t=>t.setPlaceholder('/home/user/site').setValue(this.plugin.settings.localPath).onChange(async v=>{ this.plugin.settings.localPath=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
+		}
 		new Setting(containerEl).setName('Auto Publish').setDesc('Schaltet den automatischen Mechanismus an/aus').addToggle(t=>t.setValue(this.plugin.settings.autoPublishEnabled).onChange(async v=>{ this.plugin.settings.autoPublishEnabled=v; await this.plugin.saveSettings(); }));
 		new Setting(containerEl).setName('Inaktivitäts-Sekunden').setDesc('Zeit ohne Tipp bis Einzel-Publish').addText(t=>t.setValue(String(this.plugin.settings.inactivityDelaySec)).onChange(async v=>{ const n=parseInt(v,10); if(!isNaN(n)&&n>=5) this.plugin.settings.inactivityDelaySec=n; await this.plugin.saveSettings(); }));
 		new Setting(containerEl).setName('Session-Minuten').setDesc('Max Zeit bis Batch-Publish').addText(t=>t.setValue(String(this.plugin.settings.maxIntervalMin)).onChange(async v=>{ const n=parseInt(v,10); if(!isNaN(n)&&n>=1) this.plugin.settings.maxIntervalMin=n; await this.plugin.saveSettings(); }));
 		new Setting(containerEl).setName('Debounce (ms)').setDesc('Eingabe-Entprellung').addText(t=>t.setValue(String(this.plugin.settings.debounceMs)).onChange(async v=>{ const n=parseInt(v,10); if(!isNaN(n)&&n>=250) this.plugin.settings.debounceMs=n; await this.plugin.saveSettings(); }));
 		new Setting(containerEl).setName('Batch Commit Message').setDesc('Prefix für Commits').addText(t=>t.setValue(this.plugin.settings.batchCommitMessage).onChange(async v=>{ this.plugin.settings.batchCommitMessage=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
 		new Setting(containerEl).setName('Branch').setDesc('Zielbranch').addText(t=>t.setValue(this.plugin.settings.defaultBranch).onChange(async v=>{ if(v.trim()) this.plugin.settings.defaultBranch=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Review-Modus').setDesc('Änderungen auf einen Staging-Branch committen und einen Pull Request (GitLab: Merge Request) gegen den Zielbranch öffnen bzw. aktualisieren. Nicht verfügbar für Lokaler Ordner').addToggle(t=>t.setValue(this.plugin.settings.reviewMode).onChange(async v=>{ this.plugin.settings.reviewMode=v; await this.plugin.saveSettings(); this.display(); }));
+		if(this.plugin.settings.reviewMode) new Setting(containerEl).setName('Staging Branch').setDesc('Branch für den Pull Request. Leer = automatisch erzeugter Name').addText(t=>t.setPlaceholder(this.plugin.targetBranch()).setValue(this.plugin.settings.stagingBranch).onChange(async v=>{ this.plugin.settings.stagingBranch=v.trim(); this.plugin.sanitizeSettings(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Anhänge veröffentlichen').setDesc('Eingebettete Bilder, PDFs und Audio-Dateien werden zusammen mit der Notiz hochgeladen').addToggle(t=>t.setValue(this.plugin.settings.publishAttachments).onChange(async v=>{ this.plugin.settings.publishAttachments=v; this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Max Anhanggröße (KB)').setDesc('Größere Anhänge werden nicht veröffentlicht').addText(t=>t.setValue(String(this.plugin.settings.maxAttachmentSizeKB)).onChange(async v=>{ const n=parseInt(v,10); if(!isNaN(n)&&n>=50) this.plugin.settings.maxAttachmentSizeKB=n; await this.plugin.saveSettings(); }));
 		new Setting(containerEl).setName('Max Dateigröße (KB)').setDesc('Überschreitet eine Datei diesen Wert wird sie nicht veröffentlicht').addText(t=>t.setValue(String(this.plugin.settings.maxFileSizeKB)).onChange(async v=>{ const n=parseInt(v,10); if(!isNaN(n)&&n>=50) this.plugin.settings.maxFileSizeKB=n; await this.plugin.saveSettings(); }));
+		containerEl.createEl('h3',{ text:'Pfade & Regeln' });
+		new Setting(containerEl).setName('Quellordner (Vault)').setDesc('Nur Notizen unterhalb dieses Ordners werden veröffentlicht, z. B. Public. Leer = ganzer Vault').addText(t=>t.setPlaceholder('Public').setValue(this.plugin.settings.sourceFolder).onChange(async v=>{ this.plugin.settings.sourceFolder=v; this.plugin.sanitizeSettings(); this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Zielordner (Repo)').setDesc('Ordner im Repository, in den der Quellordner abgebildet wird, z. B. content. Leer = Repo-Wurzel').addText(t=>t.setPlaceholder('content').setValue(this.plugin.settings.repoFolder).onChange(async v=>{ this.plugin.settings.repoFolder=v; this.plugin.sanitizeSettings(); this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Einschließen (Glob)').setDesc('Ein Muster pro Zeile, z. B. Blog/**. Passende Notizen werden auch ohne published:true veröffentlicht').addTextArea(t=>t.setPlaceholder('Blog/**').setValue(this.plugin.settings.includePatterns).onChange(async v=>{ this.plugin.settings.includePatterns=v; this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Ausschließen (Glob)').setDesc('Ein Muster pro Zeile, z. B. Blog/Drafts/**. published:true im Frontmatter hat Vorrang').addTextArea(t=>t.setPlaceholder('Blog/Drafts/**').setValue(this.plugin.settings.excludePatterns).onChange(async v=>{ this.plugin.settings.excludePatterns=v; this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		containerEl.createEl('h3',{ text:'Markdown Umwandlung' });
+		new Setting(containerEl).setName('Links umwandeln').setDesc('[[Wikilinks]] und ![[Embeds]] werden zu relativen Markdown-Links; Links auf nicht veröffentlichte Notizen werden zu reinem Text').addToggle(t=>t.setValue(this.plugin.settings.convertLinks).onChange(async v=>{ this.plugin.settings.convertLinks=v; this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Kommentare entfernen').setDesc('%%Kommentare%% werden nicht veröffentlicht').addToggle(t=>t.setValue(this.plugin.settings.stripComments).onChange(async v=>{ this.plugin.settings.stripComments=v; this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
+		new Setting(containerEl).setName('Callouts umwandeln').setDesc('> [!note] Titel wird zu einem Zitat mit fettem Titel').addToggle(t=>t.setValue(this.plugin.settings.convertCallouts).onChange(async v=>{ this.plugin.settings.convertCallouts=v; this.plugin.invalidateRenderCache(); await this.plugin.saveSettings(); }));
 		containerEl.createEl('h3',{ text:'Sicherheit' });
 		containerEl.createEl('ul',{ text:'' }).appendChild(this.buildBullet('Token wird nie geloggt.')); containerEl.createEl('ul',{ text:'' }).appendChild(this.buildBullet('Pfadvalidierung verhindert ../ Traversal.')); containerEl.createEl('ul',{ text:'' }).appendChild(this.buildBullet('Größenlimit schützt vor großen Commits.'));
 		containerEl.createEl('h3',{ text:'Nutzungsschritte' });
@@ -154,9 +367,45 @@ class PendingView extends ItemView {
 	getViewType(){ return 'gitpublish-pending-view'; }
 	getDisplayText(){ return 'Git Publish'; }
 	getIcon(){ return 'upload-cloud'; }
-	async onOpen(){ this.render(); }
+	async onOpen(){ this.render(); await this.plugin.refreshReviewStatus(); }
+	async onClose(){}
+	private renderReview(el:HTMLElement){ const s=this.plugin.settings; if(!s.reviewMode) return; const r=this.plugin.review; const box=el.createDiv({ cls:'gitpublish-review' }); box.createSpan({ text:`Review ${this.plugin.targetBranch()} → ${s.defaultBranch}: ` }); if(r){ box.createEl('a',{ text:`#${r.id}`, href:r.url }); box.createSpan({ text:` ${r.state==='open' ? 'offen' : r.state==='merged' ? 'gemerged' : 'geschlossen'}${r.state==='open' && r.mergeable!==null ? (r.mergeable ? ', mergebar' : ', nicht mergebar') : ''}` }); } else box.createSpan({ text:'kein offener Pull Request' }); const btn=box.createEl('button',{ text:'Status aktualisieren' }); btn.onclick=async()=>{ await this.plugin.refreshReviewStatus(); }; }
+	private renderRetry(row:HTMLElement, p:string){ const r=this.plugin.retries[p]; if(!r) return; const wait=Math.max(0, Math.round((r.nextAttempt-Date.now())/1000)); row.createSpan({ cls:'gitpublish-retry', text:`${r.attempts}× fehlgeschlagen${r.nextAttempt ? `, nächster Versuch in ${wait}s` : ''}: ${r.lastError}` }); }
+	render(){ const el=this.containerEl; el.empty(); el.addClass('gitpublish-view'); el.createEl('h3',{ text:'Pending Changes' }); if(!this.plugin.ensureBackendConfig()){ el.createEl('div',{ text:'Konfiguration fehlt (Repo / Token).' }); return; } this.renderReview(el); if(this.plugin.conflicts.size){ el.createEl('h4',{ text:'Konflikte' }); const cl=el.createDiv({ cls:'gitpublish-pending-list' }); for(const p of this.plugin.conflicts.keys()){ const row=cl.createDiv({ cls:'gitpublish-row gitpublish-row-conflict' }); row.createSpan({ text:p }); const btn=row.createEl('button',{ text:'Lösen' }); btn.onclick=()=>{ const f=this.plugin.app.vault.getAbstractFileByPath(p); if(f instanceof TFile) new ConflictModal(this.plugin.app,this.plugin,f).open(); }; } } const list=el.createDiv({ cls:'gitpublish-pending-list' }); let count=0; for(const [p,pen] of this.plugin.pendingChanges.entries()){ if(!pen) continue; count++; const row=list.createDiv({ cls:'gitpublish-row' }); const pf=this.plugin.app.vault.getAbstractFileByPath(p); const rp=pf instanceof TFile ? this.plugin.repoPath(pf) : null; row.createSpan({ text:rp && rp!==p ? `${p} → ${rp}` : p }); this.renderRetry(row,p); const btn=row.createEl('button',{ text:'Publish' }); btn.onclick=async()=>{ const f=this.plugin.app.vault.getAbstractFileByPath(p); if(f instanceof TFile){ await this.plugin.queueFileForPublish(f); this.render(); } }; } for(const p of this.plugin.heldNotes()){ count++; const row=list.createDiv({ cls:'gitpublish-row' }); row.createSpan({ text:`${p} (zurückgenommen, wird erst nach Bearbeitung wieder veröffentlicht)` }); const btn=row.createEl('button',{ text:'Publish' }); btn.onclick=async()=>{ const f=this.plugin.app.vault.getAbstractFileByPath(p); if(f instanceof TFile){ await this.plugin.queueFileForPublish(f); this.render(); } }; } for(const p of this.plugin.pendingRemovals){ count++; const row=list.createDiv({ cls:'gitpublish-row' }); row.createSpan({ text:`${p} (wird entfernt)` }); this.renderRetry(row,p); } if(count===0) list.createDiv({ text:'Keine pending Dateien.' }); if(this.plugin.remoteOrphans.length){ el.createEl('h4',{ text:'Nur im Repository' }); const orphans=el.createDiv({ cls:'gitpublish-pending-list' }); for(const rp of this.plugin.remoteOrphans){ const row=orphans.createDiv({ cls:'gitpublish-row' }); row.createSpan({ text:rp }); confirmButton(row,'Entfernen',async()=>{ await this.plugin.removeRemoteOrphan(rp); this.render(); }); } } const actions=el.createDiv({ cls:'gitpublish-actions' }); const allBtn=actions.createEl('button',{ text:'Alle publishen' }); allBtn.onclick=()=>{ new PublishPreviewModal(this.plugin.app,this.plugin).open(); }; actions.createEl('button',{ text:'Verlauf' }).onclick=()=>this.plugin.activateView('gitpublish-history-view'); if(Object.keys(this.plugin.retries).length || this.plugin.blockedUntil>Date.now()){ const retryBtn=actions.createEl('button',{ text:'Erneut versuchen' }); retryBtn.onclick=async()=>{ await this.plugin.retryNow(); this.render(); }; } if(this.plugin.blockedUntil>Date.now()) el.createDiv({ cls:'gitpublish-retry', text:`Rate-Limit bis ${new Date(this.plugin.blockedUntil).toLocaleTimeString()}` }); const timers=el.createDiv({ cls:'gitpublish-timers' }); const now=Date.now(); let inactLeft=0; if(this.plugin.inactivityHandle && this.plugin.lastActivityTime){ const elapsed=now-this.plugin.lastActivityTime; inactLeft=Math.max(0, Math.round((this.plugin.settings.inactivityDelaySec*1000 - elapsed)/1000)); } let sessLeft=0; if(this.plugin.sessionHandle && this.plugin.sessionStart){ const elapsedS=now-this.plugin.sessionStart; sessLeft=Math.max(0, Math.round((this.plugin.settings.maxIntervalMin*60*1000 - elapsedS)/1000)); } const stat=timers.createDiv({ cls:'gitpublish-timers-line' }); stat.createDiv({ text:`Session Rest: ${sessLeft}s` }); stat.createDiv({ text:`Inaktivität Rest: ${inactLeft}s` }); if(this.plugin['lastScanSummary']){ const s=this.plugin['lastScanSummary']; el.createDiv({ cls:'gitpublish-scan-summary', text:`Scan: ${s.total} published, ${s.missing} fehlen, ${s.outOfSync} abweichend, ${s.orphaned} nur im Repo (${new Date(s.ts).toLocaleTimeString()})` }); } }
+}
+
+class HistoryView extends ItemView {
+	private entries: HistoryEntry[]|null = null;
+	private note: { path:string; loading:boolean; lossy:boolean; revisions:CommitInfo[]|null }|null = null;
+	constructor(leaf:WorkspaceLeaf, private plugin:GitPublisherPlugin){ super(leaf); }
+	getViewType(){ return 'gitpublish-history-view'; }
+	getDisplayText(){ return 'Publish Verlauf'; }
+	getIcon(){ return 'history'; }
+	async onOpen(){ this.registerEvent(this.app.workspace.on('active-leaf-change', ()=>{ this.loadNote(); })); await this.reload(); }
 	async onClose(){}
-	render(){ const el=this.containerEl; el.empty(); el.addClass('gitpublish-view'); el.createEl('h3',{ text:'Pending Changes' }); if(!this.plugin.ensureGitHubConfig()){ el.createEl('div',{ text:'Konfiguration fehlt (Repo / Token).' }); return; } const list=el.createDiv({ cls:'gitpublish-pending-list' }); let count=0; for(const [p,pen] of this.plugin.pendingChanges.entries()){ if(!pen) continue; count++; const row=list.createDiv({ cls:'gitpublish-row' }); row.createSpan({ text:p }); const btn=row.createEl('button',{ text:'Publish' }); btn.onclick=async()=>{ const f=this.plugin.app.vault.getAbstractFileByPath(p); if(f instanceof TFile){ await this.plugin.queueFileForPublish(f); this.render(); } }; } if(count===0) list.createDiv({ text:'Keine pending Dateien.' }); const actions=el.createDiv({ cls:'gitpublish-actions' }); const allBtn=actions.createEl('button',{ text:'Alle publishen' }); allBtn.onclick=async()=>{ await this.plugin.publishAllPending(); this.render(); }; const timers=el.createDiv({ cls:'gitpublish-timers' }); const now=Date.now(); let inactLeft=0; if(this.plugin.inactivityHandle && this.plugin.lastActivityTime){ const elapsed=now-this.plugin.lastActivityTime; inactLeft=Math.max(0, Math.round((this.plugin.settings.inactivityDelaySec*1000 - elapsed)/1000)); } let sessLeft=0; if(this.plugin.sessionHandle && this.plugin.sessionStart){ const elapsedS=now-this.plugin.sessionStart; sessLeft=Math.max(0, Math.round((this.plugin.settings.maxIntervalMin*60*1000 - elapsedS)/1000)); } const stat=timers.createDiv({ cls:'gitpublish-timers-line' }); stat.createDiv({ text:`Session Rest: ${sessLeft}s` }); stat.createDiv({ text:`Inaktivität Rest: ${inactLeft}s` }); if(this.plugin['lastScanSummary']){ const s=this.plugin['lastScanSummary']; el.createDiv({ cls:'gitpublish-scan-summary', text:`Scan: ${s.total} published, ${s.missing} fehlen, ${s.outOfSync} abweichend (${new Date(s.ts).toLocaleTimeString()})` }); } }
+	private async reload(){ this.entries=null; this.note=null; this.render(); this.entries=await this.plugin.loadHistory(); this.render(); await this.loadNote(); }
+	private async loadNote(){ const f=this.app.workspace.getActiveFile(); if(!f || f.extension!=='md'){ if(this.note){ this.note=null; this.render(); } return; } if(this.note?.path===f.path) return; this.note={ path:f.path, loading:true, lossy:false, revisions:null }; this.render(); const revisions=await this.plugin.noteRevisions(f); const lossy=await this.plugin.hasLocalOnlySyntax(f); if(this.note?.path!==f.path) return; this.note={ path:f.path, loading:false, lossy, revisions }; this.render(); }
+	private formatCommit(c:CommitInfo){ return `${c.date ? new Date(c.date).toLocaleString() : ''} ${/^[0-9a-f]{7,}$/.test(c.sha) ? c.sha.slice(0,7) : ''} ${c.message}`.trim(); }
+	render(){ const el=this.containerEl; el.empty(); el.addClass('gitpublish-view'); el.createEl('h3',{ text:'Publish Verlauf' }); if(!this.plugin.ensureBackendConfig()){ el.createEl('div',{ text:'Konfiguration fehlt (Repo / Token).' }); return; } el.createDiv({ cls:'gitpublish-actions' }).createEl('button',{ text:'Aktualisieren' }).onclick=()=>this.reload(); this.renderNote(el); this.renderCommits(el); }
+	private renderNote(el:HTMLElement){ if(!this.note) return; const note=this.note; el.createEl('h4',{ text:`Revisionen: ${note.path}` }); if(note.lossy && note.revisions?.length) el.createEl('p',{ cls:'gitpublish-warning', text:'Achtung: "Wiederherstellen" ersetzt die Notiz durch die veröffentlichte Fassung. Wikilinks, %%Kommentare%% und Callouts der lokalen Notiz gehen dabei verloren.' }); const list=el.createDiv({ cls:'gitpublish-pending-list' }); if(note.loading){ list.createDiv({ text:'Lade…' }); return; } if(!note.revisions){ list.createDiv({ text:'Revisionen werden vom Backend nicht unterstützt.' }); return; } if(!note.revisions.length){ list.createDiv({ text:'Noch nicht veröffentlicht.' }); return; } for(const rev of note.revisions){ const row=list.createDiv({ cls:'gitpublish-row' }); row.createSpan({ text:this.formatCommit(rev) }); let box:HTMLElement|null=null; row.createEl('button',{ text:'Diff' }).onclick=async()=>{ if(box){ box.remove(); box=null; return; } const f=this.app.vault.getAbstractFileByPath(note.path); const data=f instanceof TFile ? await this.plugin.loadRevision(f, rev.sha) : null; if(!data){ new Notice('Version konnte nicht geladen werden'); return; } box=renderLineDiff(list, data.remote, data.local); row.after(box); }; confirmButton(row,'Wiederherstellen',async()=>{ const f=this.app.vault.getAbstractFileByPath(note.path); if(f instanceof TFile) await this.plugin.restoreRevision(f, rev.sha); this.render(); }); } }
+	private renderCommits(el:HTMLElement){ el.createEl('h4',{ text:'Letzte Publishes' }); const list=el.createDiv({ cls:'gitpublish-pending-list' }); if(!this.entries){ list.createDiv({ text:'Lade…' }); return; } if(!this.entries.length){ list.createDiv({ text:'Keine Publishes gefunden.' }); return; } const canRevert=this.plugin.canRevert(); for(const e of this.entries){ const item=list.createDiv({ cls:'gitpublish-history-entry' }); const row=item.createDiv({ cls:'gitpublish-row' }); if(e.url) row.createEl('a',{ text:this.formatCommit(e), href:e.url }); else row.createSpan({ text:this.formatCommit(e) }); if(!e.files && canRevert) row.createEl('button',{ text:'Dateien' }).onclick=async()=>{ e.files=await this.plugin.commitFiles(e.sha) ?? []; this.render(); }; if(canRevert) confirmButton(row,'Zurücknehmen',async()=>{ if(await this.plugin.revertCommit(e)) await this.reload(); else this.render(); }); if(e.files){ const ul=item.createEl('ul',{ cls:'gitpublish-history-files' }); for(const f of e.files) ul.createEl('li',{ text:f }); } } }
 }
 
 class HelpModal extends Modal { onOpen(){ const { contentEl }=this; contentEl.empty(); contentEl.createEl('h2',{ text:'Git Publisher Hilfe' }); contentEl.createEl('p',{ text:'Markiere Dateien mit Frontmatter published:true um sie automatisch zu veröffentlichen.' }); contentEl.createEl('p',{ text:'Timers: Inaktivität veröffentlicht ein einzelnes File, Session veröffentlicht alle pending Dateien im Batch.' }); contentEl.createEl('p',{ text:'Toggle unten rechts: Grün = synchron, Blau = pending Änderungen, Rot = deaktiviert.' }); contentEl.createEl('p',{ text:'Unpublish (published:false) löscht Datei aus dem Repo.' }); } }
+
+class ConflictModal extends Modal {
+	constructor(app:App, private plugin:GitPublisherPlugin, private file:TFile){ super(app); }
+	async onOpen(){ const { contentEl }=this; contentEl.empty(); contentEl.createEl('h2',{ text:`Konflikt: ${this.file.path}` }); contentEl.createEl('p',{ text:'Die Datei wurde seit dem letzten Publish im Repository geändert. Rot = nur im Repository, Grün = nur lokal.' }); const data=await this.plugin.loadConflict(this.file); if(!data){ contentEl.createEl('p',{ text:'Remote-Version konnte nicht geladen werden.' }); return; } renderLineDiff(contentEl, data.remote, data.local); const lossy=data.raw!==data.local; if(lossy) contentEl.createEl('p',{ cls:'gitpublish-warning', text:'Achtung: "Remote übernehmen" ersetzt die Notiz durch die veröffentlichte Fassung. Wikilinks, %%Kommentare%% und Callouts der lokalen Notiz gehen dabei verloren. Im Zweifel "Manuell zusammenführen" verwenden.' }); const actions=contentEl.createDiv({ cls:'gitpublish-conflict-actions' }); const merge=contentEl.createEl('textarea',{ cls:'gitpublish-merge' }); merge.value=data.raw; merge.hide(); const save=contentEl.createEl('button',{ text:'Zusammengeführt speichern & publishen' }); save.hide(); actions.createEl('button',{ text:'Lokal behalten' }).onclick=async()=>{ this.close(); await this.plugin.resolveConflict(this.file,'local'); }; const takeRemote=async()=>{ this.close(); await this.plugin.resolveConflict(this.file,'remote',data.remote); }; if(lossy) confirmButton(actions,'Remote übernehmen',takeRemote); else actions.createEl('button',{ text:'Remote übernehmen' }).onclick=takeRemote; actions.createEl('button',{ text:'Manuell zusammenführen' }).onclick=()=>{ merge.show(); save.show(); merge.focus(); }; save.onclick=async()=>{ this.close(); await this.plugin.resolveConflict(this.file,'merge',merge.value); }; }
+	onClose(){ this.contentEl.empty(); }
+}
+
+class PublishPreviewModal extends Modal {
+	constructor(app:App, private plugin:GitPublisherPlugin){ super(app); }
+	async onOpen(){ const { contentEl }=this; contentEl.empty(); contentEl.createEl('h2',{ text:'Publish Vorschau' }); const s=this.plugin.settings; contentEl.createEl('p',{ text:s.reviewMode ? `Ziel: Branch ${this.plugin.targetBranch()}, danach Pull Request gegen ${s.defaultBranch}.` : `Ziel: Branch ${s.defaultBranch}.` }); const status=contentEl.createEl('p',{ text:'Lade Vergleich mit dem Repository…' }); const preview=await this.plugin.previewPending(); if(!preview){ status.setText('Vorschau nicht möglich: Repository konnte nicht geladen werden.'); return; } status.setText(preview.items.length ? `${preview.items.length} Dateien werden geändert (Vergleich mit ${preview.ref}).` : 'Keine Änderungen gegenüber dem Repository.'); const groups:[PreviewItem['kind'],string][]=[['added','Hinzugefügt'],['modified','Geändert'],['deleted','Gelöscht']]; for(const [kind,label] of groups){ const items=preview.items.filter(i=>i.kind===kind); if(!items.length) continue; contentEl.createEl('h4',{ text:`${label} (${items.length})` }); const list=contentEl.createDiv({ cls:'gitpublish-pending-list' }); for(const item of items) this.renderItem(list, item, preview.ref); } const actions=contentEl.createDiv({ cls:'gitpublish-conflict-actions' }); if(preview.items.length) actions.createEl('button',{ text:'Jetzt publishen', cls:'mod-cta' }).onclick=async()=>{ this.close(); await this.plugin.publishPendingNow(); }; actions.createEl('button',{ text:preview.items.length ? 'Abbrechen' : 'Schließen' }).onclick=()=>this.close(); }
+	private renderItem(list:HTMLElement, item:PreviewItem, ref:string){ const row=list.createDiv({ cls:`gitpublish-row gitpublish-preview-${item.kind}` }); row.createSpan({ text:item.path }); if(!item.path.endsWith('.md')){ row.createSpan({ cls:'gitpublish-preview-note', text:item.content ? `Binärdatei, ${Math.ceil(item.content.length/1024)} KB` : 'Binärdatei' }); return; } const btn=row.createEl('button',{ text:'Diff' }); let box:HTMLElement|null=null; btn.onclick=async()=>{ if(box){ box.remove(); box=null; return; } const local=item.content ? item.content.toString('utf8') : ''; const remote=item.kind==='added' ? '' : (await this.plugin.readRemoteFile(item.path, ref))?.toString('utf8') ?? ''; box=renderLineDiff(list, remote, local); row.after(box); }; }
+	onClose(){ this.contentEl.empty(); }
+}
+
+function confirmButton(row:HTMLElement, text:string, action:()=>Promise<unknown>){ const btn=row.createEl('button',{ text }); btn.onclick=async()=>{ if(btn.getText()===text){ btn.setText('Sicher?'); return; } btn.disabled=true; await action(); }; }
+function lineDiff(before:string, after:string): { op:' '|'+'|'-'; text:string }[] { const a=before.split('\n'), b=after.split('\n'); const n=a.length, m=b.length; if(n*m>4_000_000) return [...a.map(text=>({ op:'-' as const, text })), ...b.map(text=>({ op:'+' as const, text }))]; const dp:number[][]=[]; for(let i=0;i<=n;i++) dp.push(new Array(m+1).fill(0)); for(let i=n-1;i>=0;i--) for(let j=m-1;j>=0;j--) dp[i][j]=a[i]===b[j] ? dp[i+1][j+1]+1 : Math.max(dp[i+1][j], dp[i][j+1]); const out:{ op:' '|'+'|'-'; text:string }[]=[]; let i=0, j=0; while(i<n && j<m){ if(a[i]===b[j]){ out.push({ op:' ', text:a[i] }); i++; j++; } else if(dp[i+1][j]>=dp[i][j+1]) out.push({ op:'-', text:a[i++] }); else out.push({ op:'+', text:b[j++] }); } while(i<n) out.push({ op:'-', text:a[i++] }); while(j<m) out.push({ op:'+', text:b[j++] }); return out; }
+function renderLineDiff(el:HTMLElement, before:string, after:string){ const box=el.createDiv({ cls:'gitpublish-diff' }); for(const l of lineDiff(before,after)) box.createDiv({ cls:l.op==='+' ? 'gitpublish-diff-add' : l.op==='-' ? 'gitpublish-diff-del' : 'gitpublish-diff-ctx', text:`${l.op} ${l.text}` }); return box; }